@@ -0,0 +1,97 @@
+// AbsenceModal.tsx
+import React, { useState } from 'react';
+import { AbsenceType, ABSENCE_LABELS } from './utils';
+
+interface AbsenceModalProps {
+  // YYYY-MM-DD of the selected calendar day.
+  initialDate: string;
+  initialType?: AbsenceType;
+  onSave: (type: AbsenceType, startDate: string, endDate: string) => void;
+  onClear: (startDate: string, endDate: string) => void;
+  onClose: () => void;
+}
+
+const AbsenceModal: React.FC<AbsenceModalProps> = ({ initialDate, initialType = 'loma', onSave, onClear, onClose }) => {
+  const [type, setType] = useState<AbsenceType>(initialType);
+  const [startDate, setStartDate] = useState(initialDate);
+  const [endDate, setEndDate] = useState(initialDate);
+
+  const validateRange = (): boolean => {
+    if (!startDate || !endDate || endDate < startDate) {
+      alert('Tarkista aikaväli.');
+      return false;
+    }
+    return true;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validateRange()) {
+      onSave(type, startDate, endDate);
+    }
+  };
+
+  const handleClear = () => {
+    if (validateRange()) {
+      onClear(startDate, endDate);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50 backdrop-blur-sm" lang="fi-FI">
+      <div className="bg-white p-6 rounded text-black shadow-lg w-80">
+        <h3 className="text-xl font-bold mb-4">Poissaolo</h3>
+        <form onSubmit={handleSubmit}>
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-black">Syy:</label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as AbsenceType)}
+              className="mt-1 block w-full border border-black rounded-md p-1"
+            >
+              {Object.entries(ABSENCE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-black">Alkaen:</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="mt-1 block w-full border border-black rounded-md p-1"
+            />
+          </div>
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-black">Päättyen:</label>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="mt-1 block w-full border border-black rounded-md p-1"
+            />
+          </div>
+          <div className="flex justify-between">
+            <button type="button" onClick={handleClear} className="px-3 py-2 bg-red-600 text-white rounded">
+              Poista
+            </button>
+            <div>
+              <button type="button" onClick={onClose} className="mr-2 px-3 py-2 bg-gray-300 text-black rounded">
+                Peruuta
+              </button>
+              <button type="submit" className="px-3 py-2 bg-secondary text-white rounded">
+                Tallenna
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AbsenceModal;
@@ -0,0 +1,107 @@
+// AnnualSummary.tsx
+import React, { useMemo, useState } from 'react';
+import { useCalendarData } from './useCalendarData';
+import { usePeriodModel } from './usePeriodModel';
+import { usePayConfig } from './usePayConfig';
+import { useRateTables } from './useRateTables';
+import { useWorkCodes } from './useWorkCodes';
+import { getWorkCodeLabel } from './workCodes';
+import { ReportRow, annualReportToCsv, getAnnualReport, getMonthName } from './annualReport';
+
+/**
+ * Yearly totals by month for tax time and holiday pay, exportable as CSV.
+ */
+const AnnualSummary: React.FC = () => {
+  const { data, warehouse } = useCalendarData();
+  const [periodModel] = usePeriodModel();
+  const [payConfig] = usePayConfig();
+  const { tables: rateTables } = useRateTables();
+  const [workCodes] = useWorkCodes();
+  const [year, setYear] = useState(new Date().getFullYear());
+
+  // Years with data, and always the current one.
+  const years = useMemo(
+    () =>
+      Array.from(new Set([new Date().getFullYear(), ...Object.keys(data).map((dateString) => Number(dateString.slice(0, 4)))])).sort(
+        (a, b) => b - a
+      ),
+    [data]
+  );
+  const report = useMemo(
+    () => getAnnualReport(data, year, periodModel, { warehouse, rateTables, workCodes, payConfig }),
+    [data, year, periodModel, warehouse, rateTables, workCodes, payConfig]
+  );
+
+  const handleExport = () => {
+    // The byte order mark lets spreadsheet programs detect UTF-8 (ä, ö).
+    const blob = new Blob(['\uFEFF' + annualReportToCsv(report, workCodes)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vuosiraportti-${year}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderRow = (label: string, row: ReportRow, className = '') => (
+    <tr key={label} className={className}>
+      <td className="pr-2 py-1 capitalize">{label}</td>
+      <td className="text-right px-2">{row.workedHours.toFixed(2)}</td>
+      <td className="text-right px-2">{row.paidHours.toFixed(2)}</td>
+      <td className="text-right px-2">{row.overtimeHours.toFixed(2)}</td>
+      <td className="text-right px-2">{row.tuntikorttiHours.toFixed(2)}</td>
+      {report.codes.map((code) => (
+        <td key={code} className="text-right px-2">
+          {row.averages[code] !== undefined ? `${Math.round(row.averages[code])}%` : ''}
+        </td>
+      ))}
+      <td className="text-right pl-2">{row.bonusEuros.toFixed(2)} €</td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-primary min-h-screen text-gray-100 flex flex-col items-center p-4 space-y-6">
+      <h2 className="text-secondary text-2xl font-bold mb-2">Vuosiraportti</h2>
+      <div className="w-full max-w-3xl p-4 bg-gray-800 rounded shadow-lg overflow-x-auto">
+        <div className="flex space-x-2 mb-4">
+          <select value={year} onChange={(e) => setYear(Number(e.target.value))} className="p-1 rounded text-black">
+            {years.map((y) => (
+              <option key={y} value={y}>
+                {y}
+              </option>
+            ))}
+          </select>
+          <button onClick={handleExport} className="bg-secondary text-white px-3 py-1 rounded">
+            Lataa CSV
+          </button>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="text-left pr-2">Kuukausi</th>
+              <th className="text-right px-2">Tehdyt h</th>
+              <th className="text-right px-2">Maksetut h</th>
+              <th className="text-right px-2">Ylityö h</th>
+              <th className="text-right px-2">Tuntikortti h</th>
+              {report.codes.map((code) => (
+                <th key={code} className="text-right px-2">
+                  {getWorkCodeLabel(workCodes, code)}
+                </th>
+              ))}
+              <th className="text-right pl-2">Palkkio</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.months.map((row, month) => renderRow(getMonthName(month), row))}
+            {renderRow('Yhteensä', report.total, 'font-bold border-t border-gray-600')}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-400 mt-2">
+          Suoritepalkkio on arvio taulukoiden ja jakson keskisuoritteen mukaan. Ylityötunnit lasketaan palkka-asetusten mukaan.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default AnnualSummary;
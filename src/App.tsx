@@ -1,28 +1,92 @@
 // App.tsx
-import { DateData, DailyData, computePerformancePercentage, calculateAverage, calculatePercentage } from './utils';
-import React, { useState, useEffect } from 'react';
+import {
+  DailyData,
+  WorkEntry,
+  ShiftCheckpoint,
+  AbsenceType,
+  ABSENCE_LABELS,
+  computePerformancePercentage,
+  getDaysBetween,
+  getDayEntries,
+  isDayAccountedFor,
+  toDateKey,
+} from './utils';
+import React, { useState, useEffect, useMemo } from 'react';
 import Calendar, { CalendarProps } from 'react-calendar';
 import 'react-calendar/dist/Calendar.css';
+import { useSearchParams } from 'react-router-dom';
 import './tailwind.css';
 import './customCalendar.css';
 import Tavoite from './Tavoite';
 import Multiplier from './Multiplier';
 import MeatCalculator from './MeatCalculator';
 import PerformanceModal from './PerformanceModal';
+import AbsenceModal from './AbsenceModal';
+import PaceTracker from './PaceTracker';
+import { findOpenCheckpoint } from './pace';
+import { TuntikorttiItem, sumTuntikorttiMinutes, formatMinutes } from './tuntikortti';
 import localforage from 'localforage';
 import { migrateOldData } from './migration';
+import { WAREHOUSES, getWarehouseLabel, hasRateTables } from './rateTables';
+import { useRateTables } from './useRateTables';
+import { getHourRules } from './hourRules';
+import { getPeriodForDate, isDateInPeriod } from './periods';
+import { usePeriodModel } from './usePeriodModel';
+import { getHolidayName } from './holidays';
+import { useHolidayExceptions } from './useHolidayExceptions';
+import { useRoster } from './useRoster';
+import { usePeriodGoals } from './usePeriodGoals';
+import { useContract } from './useContract';
+import { contractShiftFlags } from './contract';
+import { useShiftDefinitions } from './useShiftDefinitions';
+import { DEFAULT_SHIFT_DEFINITIONS, ShiftDefinition, detectShift, getShiftHours, getShiftName } from './shiftDefinitions';
+import { useWorkCodes } from './useWorkCodes';
+import { DEFAULT_WORK_CODE, FORKLIFT_WORK_CODE, getWorkCodeLabel } from './workCodes';
+import {
+  ShiftSegmentDraft,
+  entriesToSegments,
+  parseSegmentDrafts,
+  segmentsToEntries,
+  toSegmentDrafts,
+  validateSegments,
+} from './shiftSegments';
+
+// Short labels that fit on a calendar tile.
+const ABSENCE_TILE_LABELS: { [type in AbsenceType]: string } = {
+  loma: 'Loma',
+  sairausloma: 'Sair.',
+  palkaton: 'Palk.',
+  koulutus: 'Koul.',
+};
 
 const App = () => {
+  // The period archive links here with ?paiva=YYYY-MM-DD to open the calendar at that day.
+  const [searchParams] = useSearchParams();
+  const [date, setDate] = useState(() => {
+    const linked = new Date(`${searchParams.get('paiva')}T00:00:00`);
+    return isNaN(linked.getTime()) ? new Date() : linked;
+  });
   // Data now maps date strings to DailyData objects.
-  const [date, setDate] = useState(new Date());
   const [data, setData] = useState<{ [key: string]: DailyData }>({});
-  const [period, setPeriod] = useState('');
   const [showModal, setShowModal] = useState(false);
-  const [autoShift, setAutoShift] = useState<'morning' | 'evening' | 'night'>('morning');
+  const [showAbsenceModal, setShowAbsenceModal] = useState(false);
+  const [shiftDefinitions] = useShiftDefinitions();
+  const [autoShift, setAutoShift] = useState<ShiftDefinition>(DEFAULT_SHIFT_DEFINITIONS[0]);
   const [showChangelogPopup, setShowChangelogPopup] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+  // Id of the entry being edited; null when adding a new one.
+  const [editingEntryId, setEditingEntryId] = useState<number | null>(null);
   const [warehouse, setWarehouse] = useState<string>('pakaste'); // default to "pakaste"
-  const [defaultTrukki, setDefaultTrukki] = useState(false);
+  const [defaultCode, setDefaultCode] = useState(DEFAULT_WORK_CODE);
+  const [workCodes] = useWorkCodes();
+  const { tables: rateTables } = useRateTables();
+  const [periodModel] = usePeriodModel();
+  const period = useMemo(() => getPeriodForDate(date, periodModel), [date, periodModel]);
+  const [holidayExceptions] = useHolidayExceptions();
+  const [roster] = useRoster();
+  // Shared by the pace tracker and Tavoite so a goal change shows in both.
+  const [periodGoals, savePeriodGoals] = usePeriodGoals();
+  const [contract] = useContract();
 
   
   const [formData, setFormData] = useState({
@@ -32,47 +96,31 @@ const App = () => {
     freeDay: false,
     startTime: '',
     endTime: '',
-    trukki: false,
-    tuntikortti: '',
-    tuntikorttiIncrement: '',
+    code: DEFAULT_WORK_CODE,
+    warehouse: 'pakaste',
+    workShift: '',
+    tuntikorttiItems: [] as TuntikorttiItem[],
+    segments: [] as ShiftSegmentDraft[],
   });
 
-  function getOngoingShift(): 'morning' | 'evening' | 'night' {
-    const now = new Date();
-    const hr = now.getHours();
-    const min = now.getMinutes();
-    const totalMins = hr * 60 + min;
-    const timeToMins = (h: number, m: number) => h * 60 + m;
-    const morningStart = timeToMins(5, 45);
-    const morningEnd = timeToMins(14, 15);
-    const eveningStart = timeToMins(13, 45);
-    const eveningEnd = timeToMins(22, 15);
-    const inRange = (t: number, start: number, end: number) => t >= start && t < end;
-    if (inRange(totalMins, morningStart, morningEnd)) return 'morning';
-    if (inRange(totalMins, eveningStart, eveningEnd)) return 'evening';
-    return 'night';
-  }
-
-  function getPeriodForDate(d: Date) {
-    const day = d.getDate();
-    return day >= 1 && day <= 15 ? 'Jakso 1' : 'Jakso 2';
-  }
-
   const handleAddSuorite = () => {
     setIsEditing(false); // New entry mode
-    const shiftNow = getOngoingShift();
+    setEditingEntryId(null);
+    const shiftNow = detectShift(shiftDefinitions) ?? DEFAULT_SHIFT_DEFINITIONS[0];
     setAutoShift(shiftNow);
-    // Reset formData to defaults for a new entry.
+    // Reset formData to defaults for a new entry; the detected shift gives the
+    // hours and the contract the shift type.
     setFormData({
       performance: '',
-      hours: '8',
-      overtime: false,
-      freeDay: false,
+      hours: String(getShiftHours(shiftNow, contract)),
+      ...contractShiftFlags(contract),
       startTime: '',
       endTime: '',
-      tuntikortti: '',
-      tuntikorttiIncrement: '',
-      trukki: defaultTrukki,
+      tuntikorttiItems: [],
+      segments: [],
+      code: defaultCode,
+      warehouse,
+      workShift: shiftNow.id,
     });
     setShowModal(true);
   };
@@ -83,52 +131,62 @@ const App = () => {
   
   // Use selectedDayData for convenience.
   const selectedDayData = data[selectedDateString] || {};
+  const selectedEntries = getDayEntries(selectedDayData);
+  const selectedHolidayName = getHolidayName(date, holidayExceptions);
 
-  const handleEditDate = () => {
-    if (selectedDayData.normal || selectedDayData.forklift) {
-      setIsEditing(true); // We're editing an existing entry.
-      if (selectedDayData.normal) {
-        setFormData({
-          performance: selectedDayData.normal.performance.toString(),
-          hours: selectedDayData.normal.hours.toString(),
-          overtime: selectedDayData.normal.overtime,
-          freeDay: selectedDayData.normal.freeDay,
-          startTime: selectedDayData.normal.startTime || '', // use stored value if exists
-          endTime: selectedDayData.normal.endTime || '',
-          trukki: false,
-          tuntikortti: selectedDayData.normal.tuntikortti ? (selectedDayData.normal.tuntikortti * 60).toString() : '',
-          // Also initialize the increment field as empty:
-          tuntikorttiIncrement: '',
-        });
-      } else if (selectedDayData.forklift) {
-        setFormData({
-          performance: selectedDayData.forklift.performance.toString(),
-          hours: selectedDayData.forklift.hours.toString(),
-          overtime: selectedDayData.forklift.overtime,
-          freeDay: selectedDayData.forklift.freeDay,
-          startTime: selectedDayData.forklift.startTime || '',
-          endTime: selectedDayData.forklift.endTime || '',
-          trukki: true,
-          tuntikortti: selectedDayData.forklift.tuntikortti ? (selectedDayData.forklift.tuntikortti * 60).toString() : '',
-          tuntikorttiIncrement: '',
-        });
-      }
+  const handleEditEntry = (entry: WorkEntry) => {
+    setIsEditing(true); // We're editing an existing entry.
+    setEditingEntryId(entry.id);
+    if (entry.shiftId !== undefined) {
+      // A split shift is edited as a whole.
+      const shiftEntries = selectedEntries.filter((e) => e.shiftId === entry.shiftId);
+      setFormData({
+        performance: '',
+        hours: '',
+        overtime: entry.overtime,
+        freeDay: entry.freeDay,
+        startTime: shiftEntries[0].startTime || '',
+        endTime: shiftEntries[shiftEntries.length - 1].endTime || '',
+        code: entry.code,
+        warehouse: entry.warehouse ?? warehouse,
+        workShift: entry.workShift ?? '',
+        tuntikorttiItems: shiftEntries.flatMap((e) => e.tuntikorttiItems ?? []),
+        segments: toSegmentDrafts(entriesToSegments(shiftEntries)),
+      });
       setShowModal(true);
+      return;
     }
+    setFormData({
+      performance: entry.performance.toString(),
+      hours: entry.hours.toString(),
+      overtime: entry.overtime,
+      freeDay: entry.freeDay,
+      startTime: entry.startTime || '', // use stored value if exists
+      endTime: entry.endTime || '',
+      code: entry.code,
+      warehouse: entry.warehouse ?? warehouse,
+      workShift: entry.workShift ?? '',
+      tuntikorttiItems: entry.tuntikorttiItems ?? [],
+      segments: [],
+    });
+    setShowModal(true);
   };
 
   useEffect(() => {
-    // Load the saved trukki flag from localStorage when the app mounts.
-    const storedTrukki = localStorage.getItem('defaultTrukki');
-    if (storedTrukki !== null) {
-      setDefaultTrukki(storedTrukki === 'true');
+    // Load the saved default work code from localStorage when the app mounts.
+    const storedCode = localStorage.getItem('defaultWorkCode');
+    if (storedCode !== null) {
+      setDefaultCode(storedCode);
+    } else if (localStorage.getItem('defaultTrukki') === 'true') {
+      // Older versions only had a forklift toggle.
+      setDefaultCode(FORKLIFT_WORK_CODE);
     }
   }, []);
 
-  const handleTrukkiToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newValue = e.target.checked;
-    setDefaultTrukki(newValue);
-    localStorage.setItem('defaultTrukki', newValue.toString());
+  const handleDefaultCodeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newValue = e.target.value;
+    setDefaultCode(newValue);
+    localStorage.setItem('defaultWorkCode', newValue);
   };
 
   useEffect(() => {
@@ -163,13 +221,13 @@ const App = () => {
     setShowChangelogPopup(false);
   };
 
-  // Load calendarData once on mount and migrate old data if necessary.
+  // Load calendarData once on mount and migrate old data if necessary. Entries
+  // saved before per-entry warehouses get the stored warehouse selection.
   useEffect(() => {
-    localforage
-      .getItem('calendarData')
-      .then((storedData) => {
+    Promise.all([localforage.getItem('calendarData'), localforage.getItem<string>('warehouse')])
+      .then(([storedData, storedWarehouse]) => {
         if (storedData) {
-          const migratedData = migrateOldData(storedData as { [key: string]: any });
+          const migratedData = migrateOldData(storedData as { [key: string]: any }, storedWarehouse || 'pakaste');
           setData(migratedData);
         }
       })
@@ -183,11 +241,6 @@ const App = () => {
     );
   }, [data]);
 
-  // Update period when date changes.
-  useEffect(() => {
-    setPeriod(getPeriodForDate(date));
-  }, [date]);
-
   const onChange: CalendarProps['onChange'] = (value) => {
     let newDate: Date | null = null;
     if (value instanceof Date) {
@@ -197,88 +250,228 @@ const App = () => {
     }
     if (newDate) {
       setDate(newDate);
-      const day = newDate.getDate();
-      setPeriod(day >= 1 && day <= 15 ? 'Jakso 1' : 'Jakso 2');
     } else {
       console.log('Invalid or no date selected');
     }
   };
 
-  const handleFormChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, type, checked } = e.target;
+  const handleTuntikorttiItemsChange = (items: TuntikorttiItem[]) => {
+    setFormData((prev) => ({ ...prev, tuntikorttiItems: items }));
+  };
+
+  const handleSegmentsChange = (segments: ShiftSegmentDraft[]) => {
+    setFormData((prev) => ({ ...prev, segments }));
+  };
+
+  const handleFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
     setFormData((prev) => ({
       ...prev,
-      [name]: type === 'checkbox' ? checked : value,
+      [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value,
     }));
   };
 
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const { performance, hours, overtime, freeDay, trukki, tuntikortti } = formData;
-    const parsedPerformance = parseFloat(performance);
-    const parsedHours = parseFloat(hours);
-    // Convert the accumulated tuntikortti from minutes to hours
-    const parsedTuntikorttiMinutes = tuntikortti ? parseFloat(tuntikortti) : 0;
-    const parsedTuntikortti = parsedTuntikorttiMinutes / 60;
- 
-    if (isNaN(parsedHours) || parsedHours < 0 || parsedHours > 16) {
-      alert("Lisää aika väliltä 0-16");
-      return;
-    }
-    const dateString = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
-      date.getDate()
-    ).padStart(2, '0')}`;
-    setData((prevData) => {
-      const dayData: DailyData = prevData[dateString] || {};
-      if (trukki) {
-        dayData.forklift = {
-          performance: parsedPerformance,
-          hours: parsedHours,
-          overtime,
-          freeDay,
-          startTime: formData.startTime,
-          endTime: formData.endTime,
-          tuntikortti: parsedTuntikortti,
-        };
-      } else {
-        dayData.normal = {
+    const {
+      performance,
+      hours,
+      overtime,
+      freeDay,
+      code,
+      warehouse: entryWarehouse,
+      workShift,
+      tuntikorttiItems,
+      segments,
+    } = formData;
+    let newEntries: WorkEntry[];
+    if (segments.length > 0) {
+      // Split shift: one entry per work code, hours from the segment times.
+      const parsedSegments = parseSegmentDrafts(segments);
+      const problems = validateSegments(parsedSegments);
+      if (problems.length > 0) {
+        alert(problems.join('\n'));
+        return;
+      }
+      newEntries = segmentsToEntries(
+        parsedSegments,
+        { overtime, freeDay, warehouse: entryWarehouse, workShift, tuntikorttiItems },
+        Date.now(),
+        getHourRules(entryWarehouse)
+      );
+    } else {
+      // A day can be saved with only tuntikortti items and no performance.
+      const parsedPerformance = performance ? parseFloat(performance) : 0;
+      const parsedHours = parseFloat(hours);
+
+      if (isNaN(parsedHours) || parsedHours < 0 || parsedHours > 16) {
+        alert("Lisää aika väliltä 0-16");
+        return;
+      }
+      newEntries = [
+        {
+          id: editingEntryId ?? Date.now(),
+          code,
           performance: parsedPerformance,
           hours: parsedHours,
           overtime,
           freeDay,
+          warehouse: entryWarehouse,
+          ...(workShift && { workShift }),
           startTime: formData.startTime,
           endTime: formData.endTime,
-          tuntikortti: parsedTuntikortti,
-        };
-      }
-      return { ...prevData, [dateString]: dayData };
+          tuntikorttiItems,
+        },
+      ];
+    }
+    const dateString = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+      date.getDate()
+    ).padStart(2, '0')}`;
+    setData((prevData) => {
+      // A real entry replaces any pace tracker reading left on the day.
+      const dayData: DailyData = { ...prevData[dateString] };
+      delete dayData.checkpoint;
+      const entries = getDayEntries(dayData);
+      // Editing replaces the entry, or every entry of its split shift, in place.
+      const edited = entries.find((e) => e.id === editingEntryId);
+      const isReplaced = (e: WorkEntry) =>
+        e === edited || (edited?.shiftId !== undefined && e.shiftId === edited.shiftId);
+      const insertAt = edited ? entries.slice(0, entries.indexOf(edited)).filter((e) => !isReplaced(e)).length : entries.length;
+      const kept = entries.filter((e) => !isReplaced(e));
+      return {
+        ...prevData,
+        [dateString]: {
+          ...dayData,
+          entries: [...kept.slice(0, insertAt), ...newEntries, ...kept.slice(insertAt)],
+        },
+      };
     });
     setShowModal(false);
     if (!isEditing) {
       setFormData({
         performance: '',
-        hours: '8',
-        overtime: false,
-        freeDay: false,
+        hours: String(getShiftHours(autoShift, contract)),
+        ...contractShiftFlags(contract),
         startTime: '',
         endTime: '',
-        trukki: false,
-        tuntikortti: '',
-        tuntikorttiIncrement: '',
+        code: defaultCode,
+        warehouse,
+        workShift: '',
+        tuntikorttiItems: [],
+        segments: [],
       });
     }
     setIsEditing(false);
+    setEditingEntryId(null);
   };
 
+  // Removes the day's entries; an absence or open checkpoint stays on the day.
   const handleDeleteData = () => {
     const dateString = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
       date.getDate()
     ).padStart(2, '0')}`;
     setData((prevData) => {
       const newData = { ...prevData };
-      delete newData[dateString];
+      const dayData: DailyData = { ...prevData[dateString] };
+      delete dayData.entries;
+      if (dayData.absence || dayData.checkpoint) {
+        newData[dateString] = dayData;
+      } else {
+        delete newData[dateString];
+      }
+      return newData;
+    });
+  };
+
+  // The pace tracker's reading is kept on the shift's start date until logout.
+  // The date is rechecked every minute so a tab left open past midnight moves on.
+  const [todayKey, setTodayKey] = useState(() => toDateKey(new Date()));
+  useEffect(() => {
+    const timer = setInterval(() => setTodayKey(toDateKey(new Date())), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+  const openCheckpoint = findOpenCheckpoint(data, todayKey);
+  const shiftKey = openCheckpoint?.dateKey ?? todayKey;
+  const shiftPeriod = useMemo(
+    () => getPeriodForDate(new Date(shiftKey + 'T00:00:00'), periodModel),
+    [shiftKey, periodModel]
+  );
+
+  // A reading moves the open checkpoint if its shift times now start on another date.
+  const handleSaveCheckpoint = (dateKey: string, checkpoint: ShiftCheckpoint) => {
+    setData((prevData) => {
+      const newData = { ...prevData };
+      if (openCheckpoint && openCheckpoint.dateKey !== dateKey) {
+        const dayData: DailyData = { ...newData[openCheckpoint.dateKey] };
+        delete dayData.checkpoint;
+        if (getDayEntries(dayData).length > 0 || dayData.absence) {
+          newData[openCheckpoint.dateKey] = dayData;
+        } else {
+          delete newData[openCheckpoint.dateKey];
+        }
+      }
+      return { ...newData, [dateKey]: { ...newData[dateKey], checkpoint } };
+    });
+  };
+
+  const handleFinishShift = (entry: WorkEntry) => {
+    if (!openCheckpoint) return;
+    const { dateKey } = openCheckpoint;
+    setData((prevData) => {
+      const dayData: DailyData = { ...prevData[dateKey] };
+      delete dayData.checkpoint;
+      return { ...prevData, [dateKey]: { ...dayData, entries: [...getDayEntries(dayData), entry] } };
+    });
+  };
+
+  // Removes one entry; the day is removed once it has nothing left.
+  const handleDeleteEntry = (id: number) => {
+    setData((prevData) => {
+      const dayData = prevData[selectedDateString];
+      if (!dayData) return prevData;
+      const entries = getDayEntries(dayData).filter((e) => e.id !== id);
+      const newData = { ...prevData };
+      if (entries.length > 0 || dayData.absence || dayData.checkpoint) {
+        newData[selectedDateString] = { ...dayData, entries };
+      } else {
+        delete newData[selectedDateString];
+      }
+      return newData;
+    });
+  };
+
+  // Marks every day in the range with the absence, keeping any work entries.
+  const handleSaveAbsence = (type: AbsenceType, startDate: string, endDate: string) => {
+    const days = getDaysBetween(new Date(startDate + 'T00:00:00'), new Date(endDate + 'T00:00:00'));
+    setData((prevData) => {
+      const newData = { ...prevData };
+      days.forEach((d) => {
+        const key = toDateKey(d);
+        newData[key] = { ...newData[key], absence: { type } };
+      });
+      return newData;
+    });
+    setShowAbsenceModal(false);
+  };
+
+  const handleClearAbsence = (startDate: string, endDate: string) => {
+    const days = getDaysBetween(new Date(startDate + 'T00:00:00'), new Date(endDate + 'T00:00:00'));
+    setData((prevData) => {
+      const newData = { ...prevData };
+      days.forEach((d) => {
+        const key = toDateKey(d);
+        if (!newData[key]) return;
+        const rest = { ...newData[key] };
+        delete rest.absence;
+        if (getDayEntries(rest).length > 0) {
+          newData[key] = rest;
+        } else {
+          delete newData[key];
+        }
+      });
       return newData;
     });
+    setShowAbsenceModal(false);
   };
 
   const formatDate = (dateString: string): string => {
@@ -286,16 +479,7 @@ const App = () => {
     return `${day}.${month}.${year}`;
   };
 
-  const filterDates = (d: Date): boolean => {
-    const day = d.getDate();
-    return period === 'Jakso 1' ? day >= 1 && day <= 15 : day >= 16;
-  };
-
-  // Averages for the calendar slider (using normal data by default)
-  const overallAverageNormal = parseFloat(calculateAverage(data, filterDates, 'normal'));
-  const overallAveragePercentageNormal = calculatePercentage(overallAverageNormal);
-  const overallAverageForklift = parseFloat(calculateAverage(data, filterDates, 'forklift'));
-  const overallAveragePercentageForklift = calculatePercentage(overallAverageForklift);
+  const filterDates = (d: Date): boolean => isDateInPeriod(d, period);
 
   return (
     <div className="bg-primary min-h-screen text-gray-100 flex flex-col items-center p-4">
@@ -303,19 +487,23 @@ const App = () => {
       <div className="mb-4">
         <label className="mr-2 font-semibold">Valitse varasto:</label>
         <select value={warehouse} onChange={handleWarehouseChange} className="p-2 rounded">
-          <option value="pakaste">Pakaste</option>
-          <option value="kv1">KV1 (ei tietoja)</option>
-          <option value="kv2">KV2 (ei tietoja)</option>
+          {WAREHOUSES.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.label}{hasRateTables(rateTables, w.id) ? '' : ' (ei tietoja)'}
+            </option>
+          ))}
         </select>
       </div>
 
       <div className="mb-4">
-        <label className="mr-2 font-semibold">Trukki</label>
-        <input
-          type="checkbox"
-          checked={defaultTrukki}
-          onChange={handleTrukkiToggle}
-        />
+        <label className="mr-2 font-semibold">Oletuskoodi</label>
+        <select value={defaultCode} onChange={handleDefaultCodeChange} className="p-2 rounded">
+          {workCodes.map((c) => (
+            <option key={c.code} value={c.code}>
+              {c.code} {c.label}
+            </option>
+          ))}
+        </select>
       </div>
       <h2 className="text-secondary text-2xl font-bold mb-2">Suoritelaskuri</h2>
       
@@ -331,18 +519,15 @@ const App = () => {
             ).padStart(2, '0')}`;
             if (view === 'month' && data[dateString]) {
               const dayData = data[dateString];
-              let indicators = [];
-              if (dayData.normal) {
+              let indicators = getDayEntries(dayData).map((entry) => (
+                <div key={entry.id} style={{ color: 'black', fontSize: '9px', marginRight: '2px' }}>
+                  {computePerformancePercentage(entry, true, getHourRules(entry.warehouse ?? warehouse))}%
+                </div>
+              ));
+              if (dayData.absence) {
                 indicators.push(
-                  <div key="normal" style={{ color: 'black', fontSize: '10px', marginRight: '2px' }}>
-                    {computePerformancePercentage(dayData.normal)}%
-                  </div>
-                );
-              }
-              if (dayData.forklift) {
-                indicators.push(
-                  <div key="forklift" style={{ color: 'black', fontSize: '9px', marginRight: '2px' }}>
-                    {computePerformancePercentage(dayData.forklift)}%
+                  <div key="absence" style={{ fontSize: '9px' }}>
+                    {ABSENCE_TILE_LABELS[dayData.absence.type]}
                   </div>
                 );
               }
@@ -361,9 +546,15 @@ const App = () => {
             const dateString = `${tileDate.getFullYear()}-${String(tileDate.getMonth() + 1).padStart(2, '0')}-${String(
               tileDate.getDate()
             ).padStart(2, '0')}`;
-            if (data[dateString]) {
+            if (isDayAccountedFor(data[dateString])) {
               classes.push('highlight');
             }
+            if (data[dateString]?.absence) {
+              classes.push(`absence absence-${data[dateString].absence.type}`);
+            }
+            if (getHolidayName(tileDate, holidayExceptions)) {
+              classes.push('holiday');
+            }
             return classes.join(' ');
           }}
         />
@@ -372,45 +563,107 @@ const App = () => {
         <button onClick={handleAddSuorite} className="bg-secondary text-white px-4 py-2 rounded">
           Lisää suorite
         </button>
-        {(selectedDayData.normal || selectedDayData.forklift) && (
-          <button onClick={handleEditDate} className="bg-blue-600 text-white px-4 py-2 rounded">
+        {selectedEntries.length === 1 && (
+          <button onClick={() => handleEditEntry(selectedEntries[0])} className="bg-blue-600 text-white px-4 py-2 rounded">
             Muokkaa
           </button>
         )}
+        <button onClick={() => setShowAbsenceModal(true)} className="bg-gray-600 text-white px-4 py-2 rounded">
+          Poissaolo
+        </button>
         <button onClick={handleDeleteData} className="bg-red-600 text-white px-4 py-2 rounded">
           Poista suorite
         </button>
       </div>
 
-      {(selectedDayData.normal || selectedDayData.forklift) && (
+      {(selectedEntries.length > 0 || selectedDayData.absence || selectedHolidayName) && (
         <div className="mt-4 p-4 bg-gray-800 text-white rounded shadow-lg">
           <h3 className="text-lg font-bold">{formatDate(selectedDateString)}</h3>
-          {selectedDayData.normal && (
-            <p>
-              Keräyssuorite: {selectedDayData.normal.performance} ({computePerformancePercentage(selectedDayData.normal)}%) {selectedDayData.normal.hours} tunnissa {selectedDayData.normal.overtime || selectedDayData.normal.freeDay ? '(ylityö)' : ''}
+          {selectedHolidayName && <p className="text-red-400">{selectedHolidayName}</p>}
+          {selectedDayData.absence && <p className="text-green-400">{ABSENCE_LABELS[selectedDayData.absence.type]}</p>}
+          {selectedEntries.map((entry) => (
+            <p key={entry.id}>
+              {getWorkCodeLabel(workCodes, entry.code)} ({entry.code})
+              {entry.warehouse && entry.warehouse !== warehouse ? `, ${getWarehouseLabel(entry.warehouse)}` : ''}: {entry.performance} ({computePerformancePercentage(entry, true, getHourRules(entry.warehouse ?? warehouse))}%) {entry.hours} tunnissa{entry.workShift ? `, ${getShiftName(shiftDefinitions, entry.workShift)}` : ''} {entry.overtime || entry.freeDay ? '(ylityö)' : ''}
+              {selectedEntries.length > 1 && (
+                <>
+                  <button onClick={() => handleEditEntry(entry)} className="ml-2 px-1 text-blue-400">
+                    ✎
+                  </button>
+                  <button onClick={() => handleDeleteEntry(entry.id)} className="px-1 text-red-400">
+                    ✕
+                  </button>
+                </>
+              )}
             </p>
-          )}
-          {selectedDayData.forklift && (
+          ))}
+          {selectedEntries.some((entry) => entry.tuntikorttiItems?.length) && (
             <p>
-              Trukkisuorite: {selectedDayData.forklift.performance} ({computePerformancePercentage(selectedDayData.forklift)}%) {selectedDayData.forklift.hours} tunnissa {selectedDayData.forklift.overtime || selectedDayData.forklift.freeDay ? '(ylityö)' : ''}
+              Tuntikortti:{' '}
+              {formatMinutes(sumTuntikorttiMinutes(selectedEntries.flatMap((entry) => entry.tuntikorttiItems ?? [])))}
             </p>
           )}
         </div>
       )}
 
-      <Tavoite data={data} period={period} selectedDate={date} warehouse={warehouse} />
+      <PaceTracker
+        data={data}
+        checkpoint={openCheckpoint?.checkpoint}
+        checkpointDate={openCheckpoint?.dateKey}
+        period={shiftPeriod}
+        warehouse={warehouse}
+        defaultCode={defaultCode}
+        workCodes={workCodes}
+        holidayExceptions={holidayExceptions}
+        roster={roster}
+        contract={contract}
+        shiftDefinitions={shiftDefinitions}
+        periodGoals={periodGoals}
+        onSaveCheckpoint={handleSaveCheckpoint}
+        onFinishShift={handleFinishShift}
+      />
+
+      <Tavoite
+        data={data}
+        period={period}
+        periodModel={periodModel}
+        warehouse={warehouse}
+        rateTables={rateTables}
+        workCodes={workCodes}
+        holidayExceptions={holidayExceptions}
+        roster={roster}
+        periodGoals={periodGoals}
+        onSavePeriodGoals={savePeriodGoals}
+      />
+
+      {showAbsenceModal && (
+        <AbsenceModal
+          initialDate={selectedDateString}
+          initialType={selectedDayData.absence?.type}
+          onSave={handleSaveAbsence}
+          onClear={handleClearAbsence}
+          onClose={() => setShowAbsenceModal(false)}
+        />
+      )}
 
       {showModal && (
         <PerformanceModal
           formData={formData}
           onFormChange={handleFormChange}
+          onTuntikorttiItemsChange={handleTuntikorttiItemsChange}
+          onSegmentsChange={handleSegmentsChange}
           onSubmit={handleFormSubmit}
           onClose={() => {
             setShowModal(false);
             setIsEditing(false);
+            setEditingEntryId(null);
           }}
           defaultShift={autoShift}
+          defaultHours={getShiftHours(autoShift, contract)}
           editing={isEditing}
+          hourRules={getHourRules(formData.warehouse)}
+          shiftDefinitions={shiftDefinitions}
+          workCodes={workCodes}
         />
       )}
 
@@ -0,0 +1,60 @@
+import React from 'react';
+
+export interface Bar {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  bars: Bar[];
+  color: string;
+  formatValue: (value: number) => string;
+}
+
+const WIDTH = 400;
+const HEIGHT = 200;
+const PAD_TOP = 14;
+const PAD_BOTTOM = 20;
+// Bar labels beyond this many would overlap, so only every n-th is shown.
+const MAX_LABELS = 8;
+
+const BarChart: React.FC<BarChartProps> = ({ bars, color, formatValue }) => {
+  if (bars.length === 0) {
+    return <p className="text-sm text-gray-400">Ei tietoja valitulla välillä.</p>;
+  }
+  const maxValue = Math.max(...bars.map((bar) => bar.value)) || 1;
+  const slot = WIDTH / bars.length;
+  const labelEvery = Math.ceil(bars.length / MAX_LABELS);
+  const toHeight = (value: number) => (Math.max(0, value) / maxValue) * (HEIGHT - PAD_TOP - PAD_BOTTOM);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+      <line x1={0} x2={WIDTH} y1={HEIGHT - PAD_BOTTOM} y2={HEIGHT - PAD_BOTTOM} stroke="#374151" />
+      {bars.map((bar, i) => {
+        const x = i * slot + slot * 0.15;
+        const height = toHeight(bar.value);
+        return (
+          <g key={`${bar.label}-${i}`}>
+            <rect x={x} y={HEIGHT - PAD_BOTTOM - height} width={slot * 0.7} height={height} fill={color}>
+              <title>
+                {bar.label}: {formatValue(bar.value)}
+              </title>
+            </rect>
+            {bars.length <= MAX_LABELS && (
+              <text x={x + slot * 0.35} y={HEIGHT - PAD_BOTTOM - height - 3} textAnchor="middle" fontSize="9" fill="#d1d5db">
+                {formatValue(bar.value)}
+              </text>
+            )}
+            {i % labelEvery === 0 && (
+              <text x={x + slot * 0.35} y={HEIGHT - 6} textAnchor="middle" fontSize="9" fill="#9ca3af">
+                {bar.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,67 @@
+// ContractSettings.tsx
+import React, { useState, useEffect } from 'react';
+import { CONTRACT_SHIFT_TYPE_LABELS, ContractShiftType } from './contract';
+import { useContract } from './useContract';
+
+const ContractSettings: React.FC = () => {
+  const [contract, saveContract] = useContract();
+  const [shiftHours, setShiftHours] = useState(contract.shiftHours.toString());
+  const [shiftType, setShiftType] = useState<ContractShiftType>(contract.shiftType);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Sync the form once the stored contract has loaded.
+  useEffect(() => {
+    setShiftHours(contract.shiftHours.toString());
+    setShiftType(contract.shiftType);
+  }, [contract]);
+
+  const handleSave = () => {
+    const hours = parseFloat(shiftHours.replace(',', '.'));
+    if (isNaN(hours) || hours <= 0 || hours > 16) {
+      alert('Lisää aika väliltä 0-16');
+      return;
+    }
+    saveContract({ shiftHours: hours, shiftType });
+    setMessage('Työsopimus tallennettu');
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Työsopimus</h3>
+      <div className="flex items-center space-x-2 mb-2">
+        <label className="w-48 text-sm">Vuoron pituus:</label>
+        <input
+          type="number"
+          value={shiftHours}
+          onChange={(e) => setShiftHours(e.target.value)}
+          className="w-24 p-1 rounded text-black"
+          step="0.25"
+          min="0"
+          max="16"
+        />
+        <span className="text-sm">h</span>
+      </div>
+      <select
+        value={shiftType}
+        onChange={(e) => setShiftType(e.target.value as ContractShiftType)}
+        className="p-2 rounded text-black mb-2 w-full"
+      >
+        {Object.entries(CONTRACT_SHIFT_TYPE_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-400 mb-2">
+        Työvuorolistan työpäivät, joille ei ole merkitty omaa tuntimäärää, lasketaan tämän pituisiksi, ja tulevat päivät lasketaan tämän vuorotyypin mukaan. Uusi suorite merkitään valmiiksi tämän vuorotyypin mukaiseksi, ja sen tunneiksi tulee tämä pituus, ellei vuorolle ole asetettu omaa.
+      </p>
+      <button onClick={handleSave} className="bg-secondary text-white px-3 py-2 rounded">
+        Tallenna
+      </button>
+      {message && <div className="mt-4 p-2 bg-green-500 text-white rounded">{message}</div>}
+    </div>
+  );
+};
+
+export default ContractSettings;
@@ -0,0 +1,170 @@
+// EuroGoalPlanner.tsx
+import React, { useMemo, useState } from 'react';
+import { DailyData, calculateAverage, toDateKey } from './utils';
+import { getHourRules } from './hourRules';
+import { Period, isDateInPeriod } from './periods';
+import { HolidayException } from './holidays';
+import { Roster } from './roster';
+import { ContractSettings, plannedPaidHours } from './contract';
+import { RateTable, euroToRate, findRateTable, getWarehouseLabel, rateToEuro } from './rateTables';
+import { WorkCode, WorkCodeGoals, WorkGroup, getWorkCodeLabel, isInWorkGroup, workGroupKey } from './workCodes';
+import { getRemainingPlannedShifts, usePerformanceCalculations } from './usePerformanceCalculations';
+
+interface EuroGoalPlannerProps {
+  data: { [key: string]: DailyData };
+  period: Period;
+  // Groups to choose from; the first one is selected initially.
+  groups: WorkGroup[];
+  goals: WorkCodeGoals;
+  warehouse: string;
+  rateTables: RateTable[];
+  workCodes: WorkCode[];
+  holidayExceptions: HolidayException[];
+  roster: Roster;
+  contract: ContractSettings;
+  // Takes the required percentage into use as the code's goal.
+  onApply: (code: string, percentage: number) => void;
+}
+
+/**
+ * Works out the average percentage a euro bonus target for the period needs,
+ * assuming the remaining roster days are worked as planned.
+ */
+const EuroGoalPlanner: React.FC<EuroGoalPlannerProps> = ({
+  data,
+  period,
+  groups,
+  goals,
+  warehouse,
+  rateTables,
+  workCodes,
+  holidayExceptions,
+  roster,
+  contract,
+  onApply,
+}) => {
+  const [groupKey, setGroupKey] = useState('');
+  const [target, setTarget] = useState('');
+
+  const group = groups.find((g) => workGroupKey(g) === groupKey) ?? groups[0];
+  const selectedGroups = useMemo(() => [group], [group]);
+  const table = findRateTable(rateTables, group.warehouse, group.code, toDateKey(period.start));
+
+  const logged = calculateAverage(
+    data,
+    (d) => isDateInPeriod(d, period),
+    (entry) => isInWorkGroup(entry, group, warehouse),
+    () => getHourRules(group.warehouse)
+  );
+  // Planned shifts follow the selected warehouse's hour rules, as in usePerformanceCalculations.
+  const plannedRules = getHourRules(warehouse);
+  const remainingPaidHours = getRemainingPlannedShifts(data, period, roster, holidayExceptions, contract).reduce(
+    (sum, shift) => sum + plannedPaidHours(shift.hours, contract, plannedRules),
+    0
+  );
+  const projectedPaidHours = logged.paidHours + remainingPaidHours;
+
+  const targetEuros = parseFloat(target.replace(',', '.'));
+  const requiredEuroPerHour = projectedPaidHours > 0 && targetEuros > 0 ? targetEuros / projectedPaidHours : undefined;
+  const requiredPercentage = requiredEuroPerHour !== undefined ? euroToRate(requiredEuroPerHour, table) : undefined;
+
+  // The remaining-days figures for the required percentage instead of the saved goal.
+  const plannerGoals = useMemo(
+    () => (requiredPercentage !== undefined ? { ...goals, [group.code]: requiredPercentage } : goals),
+    [goals, group.code, requiredPercentage]
+  );
+  const { remainingByGroup } = usePerformanceCalculations(
+    data,
+    period,
+    selectedGroups,
+    plannerGoals,
+    warehouse,
+    holidayExceptions,
+    roster,
+    contract
+  );
+  const remaining = remainingByGroup[workGroupKey(group)];
+
+  const currentPercentage = Math.round(logged.percentage);
+  const marginalEuros = (rateToEuro(currentPercentage + 1, table) - rateToEuro(currentPercentage, table)) * projectedPaidHours;
+  const maxEuroPerHour = table ? Math.max(0, ...Object.values(table.rates)) : 0;
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Tavoite euroina</h3>
+      {groups.length > 1 && (
+        <select
+          value={workGroupKey(group)}
+          onChange={(e) => setGroupKey(e.target.value)}
+          className="p-1 mb-2 rounded text-black"
+        >
+          {groups.map((g) => (
+            <option key={workGroupKey(g)} value={workGroupKey(g)}>
+              {getWorkCodeLabel(workCodes, g.code)} ({g.code}), {getWarehouseLabel(g.warehouse)}
+            </option>
+          ))}
+        </select>
+      )}
+      <div className="flex items-center space-x-2 mb-2">
+        <label className="text-sm">Suoritepalkkio jaksolta:</label>
+        <input
+          type="number"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="w-24 p-1 rounded text-black"
+          step="10"
+          min="0"
+        />
+        <span>€</span>
+      </div>
+      <p className="text-sm">
+        Maksetut tunnit: {projectedPaidHours.toFixed(2)} h ({logged.paidHours.toFixed(2)} h tehty,{' '}
+        {remainingPaidHours.toFixed(2)} h suunniteltu)
+      </p>
+      {!table && <p className="text-yellow-400">Työkoodille ei ole taulukkoa.</p>}
+      {table && requiredEuroPerHour !== undefined && (
+        <>
+          <p>
+            Tarvittava taso: <span className="font-bold">{requiredEuroPerHour.toFixed(2)} €/h</span>
+          </p>
+          {requiredPercentage === undefined ? (
+            <p className="text-yellow-400">
+              Ei saavutettavissa, taulukon korkein taso on {maxEuroPerHour} €/h.
+            </p>
+          ) : (
+            <>
+              <p>
+                Tarvittava keskisuorite: <span className="font-bold">{requiredPercentage}%</span>
+              </p>
+              {remaining && remaining.missingDays > 0 && (
+                <p>
+                  Päivittäin: <span className="font-bold">{remaining.dailyRequiredAbsolute}</span> (
+                  {remaining.dailyRequiredPercentage}%)
+                </p>
+              )}
+              {remaining && remaining.missingDays === 0 && (
+                <p className={currentPercentage >= requiredPercentage ? 'text-green-400' : 'text-yellow-400'}>
+                  {currentPercentage >= requiredPercentage ? 'Tavoite saavutettu' : 'Työpäiviä ei ole jäljellä'}
+                </p>
+              )}
+              <button
+                onClick={() => onApply(group.code, requiredPercentage)}
+                className="bg-secondary text-white px-3 py-1 rounded mt-2"
+              >
+                Käytä tavoitteena
+              </button>
+            </>
+          )}
+        </>
+      )}
+      {table && (
+        <p className="text-sm mt-2">
+          Nykyisellä tasolla ({currentPercentage}%) +1 %-yksikkö = {marginalEuros >= 0 ? '+' : ''}
+          {marginalEuros.toFixed(2)} €
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default EuroGoalPlanner;
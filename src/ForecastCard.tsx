@@ -0,0 +1,24 @@
+import React from 'react';
+import { PeriodForecast } from './forecast';
+
+interface ForecastCardProps {
+  forecast: PeriodForecast;
+  goal: number;
+}
+
+const ForecastCard: React.FC<ForecastCardProps> = ({ forecast, goal }) => {
+  return (
+    <div className="p-6 bg-gradient-to-r from-cyan-600 to-cyan-400 text-white rounded-lg shadow-md hover:shadow-xl transform hover:scale-105 transition duration-300">
+      <h3 className="text-xl font-semibold mb-2">Ennuste jakson lopulle</h3>
+      <p className="text-2xl font-bold">{forecast.expected.toFixed(0)}%</p>
+      <p className="text-sm">
+        Todennäköinen väli: {forecast.low.toFixed(0)}–{forecast.high.toFixed(0)}%
+      </p>
+      <h3 className="text-xl font-semibold mt-4">Tavoite {goal}% saavutetaan</h3>
+      <p className="text-2xl font-bold">{Math.round(forecast.probability * 100)}% todennäköisyydellä</p>
+      <p className="text-xs opacity-80 mt-2">Perustuu {forecast.sampleDays} aiempaan työpäivään, ensisijaisesti samalta viikonpäivältä.</p>
+    </div>
+  );
+};
+
+export default ForecastCard;
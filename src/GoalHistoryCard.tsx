@@ -0,0 +1,45 @@
+import React from 'react';
+import { PeriodGoalHistory } from './goals';
+import { getWarehouseLabel } from './rateTables';
+import { WorkCode, getWorkCodeLabel } from './workCodes';
+
+interface GoalHistoryCardProps {
+  history: PeriodGoalHistory[];
+  workCodes: WorkCode[];
+  // Warehouse names are shown only when the history spans several.
+  showWarehouse: boolean;
+}
+
+const formatShortDate = (d: Date): string => `${d.getDate()}.${d.getMonth() + 1}.`;
+
+const GoalHistoryCard: React.FC<GoalHistoryCardProps> = ({ history, workCodes, showWarehouse }) => {
+  return (
+    <div className="p-6 bg-gradient-to-r from-yellow-600 to-yellow-400 text-white rounded-lg shadow-md hover:shadow-xl transform hover:scale-105 transition duration-300">
+      <h3 className="text-xl font-semibold mb-2">Tavoitehistoria</h3>
+      <table className="w-full text-sm">
+        <tbody>
+          {history.map(({ period, results }) =>
+            results.map((result, index) => (
+              <tr key={`${period.start.getTime()}-${result.warehouse}-${result.code}`}>
+                <td className="pr-2">
+                  {index === 0 &&
+                    `${formatShortDate(period.start)}–${formatShortDate(period.end)}${period.end.getFullYear()}`}
+                </td>
+                <td className="pr-2">
+                  {getWorkCodeLabel(workCodes, result.code)}
+                  {showWarehouse && `, ${getWarehouseLabel(result.warehouse)}`}
+                </td>
+                <td className="text-right">
+                  {result.percentage}% / {result.goal}%
+                </td>
+                <td className="text-right pl-2">{result.met ? '✓' : '✗'}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default GoalHistoryCard;
@@ -0,0 +1,120 @@
+// HolidaySettings.tsx
+import React, { useState } from 'react';
+import { HolidayException, getFinnishHolidays } from './holidays';
+import { useHolidayExceptions } from './useHolidayExceptions';
+
+const formatDate = (dateString: string): string => {
+  const [year, month, day] = dateString.split('-');
+  return `${day}.${month}.${year}`;
+};
+
+const HolidaySettings: React.FC = () => {
+  const [exceptions, saveExceptions] = useHolidayExceptions();
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [newDate, setNewDate] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<HolidayException['type']>('holiday');
+
+  const holidays = getFinnishHolidays(year);
+
+  const findException = (date: string) => exceptions.find((e) => e.date === date);
+
+  // Toggling a built-in holiday records it as worked, or removes that record.
+  const handleToggleWorked = (date: string, name: string) => {
+    if (findException(date)) {
+      saveExceptions(exceptions.filter((e) => e.date !== date));
+    } else {
+      saveExceptions([...exceptions, { date, name, type: 'workday' }]);
+    }
+  };
+
+  const handleAddException = () => {
+    if (!newDate) {
+      alert('Valitse päivämäärä.');
+      return;
+    }
+    const exception: HolidayException = {
+      date: newDate,
+      name: newName.trim() || (newType === 'holiday' ? 'Vapaapäivä' : 'Työpäivä'),
+      type: newType,
+    };
+    saveExceptions([...exceptions.filter((e) => e.date !== newDate), exception]);
+    setNewDate('');
+    setNewName('');
+  };
+
+  const handleRemoveException = (date: string) => {
+    saveExceptions(exceptions.filter((e) => e.date !== date));
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Pyhäpäivät</h3>
+      <div className="flex items-center space-x-2 mb-2">
+        <button onClick={() => setYear(year - 1)} className="bg-gray-600 text-white px-2 rounded">
+          ‹
+        </button>
+        <span className="font-semibold">{year}</span>
+        <button onClick={() => setYear(year + 1)} className="bg-gray-600 text-white px-2 rounded">
+          ›
+        </button>
+      </div>
+      <ul className="mb-4 text-sm">
+        {holidays.map((h) => (
+          <li key={h.date} className="flex justify-between items-center">
+            <span className={findException(h.date)?.type === 'workday' ? 'line-through text-gray-400' : ''}>
+              {formatDate(h.date)} {h.name}
+            </span>
+            <label className="flex items-center space-x-1">
+              <span>Töissä</span>
+              <input
+                type="checkbox"
+                checked={findException(h.date)?.type === 'workday'}
+                onChange={() => handleToggleWorked(h.date, h.name)}
+              />
+            </label>
+          </li>
+        ))}
+      </ul>
+      <h4 className="font-semibold mb-1">Omat poikkeukset</h4>
+      <ul className="mb-2 text-sm">
+        {exceptions
+          .filter((e) => !holidays.some((h) => h.date === e.date && e.type === 'workday'))
+          .sort((a, b) => a.date.localeCompare(b.date))
+          .map((e) => (
+            <li key={e.date} className="flex justify-between items-center">
+              <span>
+                {formatDate(e.date)} {e.name} ({e.type === 'holiday' ? 'vapaa' : 'työpäivä'})
+              </span>
+              <button onClick={() => handleRemoveException(e.date)} className="text-red-400 px-2">
+                ✕
+              </button>
+            </li>
+          ))}
+      </ul>
+      <div className="flex flex-wrap gap-2">
+        <input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} className="p-1 rounded text-black" />
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Nimi"
+          className="p-1 rounded text-black w-28"
+        />
+        <select
+          value={newType}
+          onChange={(e) => setNewType(e.target.value as HolidayException['type'])}
+          className="p-1 rounded text-black"
+        >
+          <option value="holiday">Vapaa</option>
+          <option value="workday">Työpäivä</option>
+        </select>
+        <button onClick={handleAddException} className="bg-secondary text-white px-3 py-1 rounded">
+          Lisää
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HolidaySettings;
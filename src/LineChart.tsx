@@ -0,0 +1,105 @@
+import React from 'react';
+import { ChartPoint } from './stats';
+
+export interface LineSeries {
+  label: string;
+  color: string;
+  points: ChartPoint[];
+  // Dashed lines are drawn without point markers, e.g. for trend lines.
+  dashed?: boolean;
+}
+
+interface LineChartProps {
+  series: LineSeries[];
+  formatX: (x: number) => string;
+  formatY?: (y: number) => string;
+  // Horizontal guide line, e.g. 100 %.
+  referenceY?: number;
+}
+
+const WIDTH = 400;
+const HEIGHT = 200;
+const PAD_LEFT = 36;
+const PAD_RIGHT = 8;
+const PAD_TOP = 8;
+const PAD_BOTTOM = 20;
+const TICKS = 4;
+
+const LineChart: React.FC<LineChartProps> = ({ series, formatX, formatY = (y) => y.toFixed(0), referenceY }) => {
+  const points = series.flatMap((s) => s.points);
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-400">Ei tietoja valitulla välillä.</p>;
+  }
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y).concat(referenceY !== undefined ? [referenceY] : []);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  // Leave some room above and below the data.
+  const spanY = Math.max(...ys) - Math.min(...ys) || 10;
+  const minY = Math.min(...ys) - spanY * 0.1;
+  const maxY = Math.max(...ys) + spanY * 0.1;
+
+  const toSvgX = (x: number) =>
+    maxX === minX ? (PAD_LEFT + WIDTH - PAD_RIGHT) / 2 : PAD_LEFT + ((x - minX) / (maxX - minX)) * (WIDTH - PAD_LEFT - PAD_RIGHT);
+  const toSvgY = (y: number) => PAD_TOP + ((maxY - y) / (maxY - minY)) * (HEIGHT - PAD_TOP - PAD_BOTTOM);
+  const ticks = Array.from({ length: TICKS + 1 }, (_, i) => minY + ((maxY - minY) * i) / TICKS);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line x1={PAD_LEFT} x2={WIDTH - PAD_RIGHT} y1={toSvgY(tick)} y2={toSvgY(tick)} stroke="#374151" />
+            <text x={PAD_LEFT - 4} y={toSvgY(tick) + 3} textAnchor="end" fontSize="9" fill="#9ca3af">
+              {formatY(tick)}
+            </text>
+          </g>
+        ))}
+        {referenceY !== undefined && (
+          <line
+            x1={PAD_LEFT}
+            x2={WIDTH - PAD_RIGHT}
+            y1={toSvgY(referenceY)}
+            y2={toSvgY(referenceY)}
+            stroke="#d1d5db"
+            strokeDasharray="2 2"
+          />
+        )}
+        <text x={PAD_LEFT} y={HEIGHT - 4} fontSize="9" fill="#9ca3af">
+          {formatX(minX)}
+        </text>
+        <text x={WIDTH - PAD_RIGHT} y={HEIGHT - 4} textAnchor="end" fontSize="9" fill="#9ca3af">
+          {formatX(maxX)}
+        </text>
+        {series.map((s) => (
+          <g key={s.label}>
+            <polyline
+              points={s.points.map((p) => `${toSvgX(p.x)},${toSvgY(p.y)}`).join(' ')}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={1.5}
+              strokeDasharray={s.dashed ? '4 3' : undefined}
+            />
+            {!s.dashed &&
+              s.points.map((p) => (
+                <circle key={p.x} cx={toSvgX(p.x)} cy={toSvgY(p.y)} r={2} fill={s.color}>
+                  <title>
+                    {s.label} {formatX(p.x)}: {formatY(p.y)}
+                  </title>
+                </circle>
+              ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-3 text-xs mt-1">
+        {series.map((s) => (
+          <span key={s.label} style={{ color: s.color }}>
+            {s.dashed ? '- -' : '—'} {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LineChart;
@@ -8,6 +8,10 @@ const Navbar: React.FC = () => {
         <Link to="/" className="hover:text-yellow-400 transition duration-200">Etusivu</Link>
         <Link to="/pohjalaskuri" className="hover:text-yellow-400 transition duration-200">Pohjalaskuri</Link>
         <Link to="/lihalaskuri" className="hover:text-yellow-400 transition duration-200">Lihalaskuri</Link>
+        <Link to="/tilastot" className="hover:text-yellow-400 transition duration-200">Tilastot</Link>
+        <Link to="/jaksot" className="hover:text-yellow-400 transition duration-200">Jaksot</Link>
+        <Link to="/vuosiraportti" className="hover:text-yellow-400 transition duration-200">Vuosiraportti</Link>
+        <Link to="/asetukset" className="hover:text-yellow-400 transition duration-200">Asetukset</Link>
       </div>
     </nav>
   );
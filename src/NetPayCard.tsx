@@ -0,0 +1,44 @@
+import React from 'react';
+import { NetPayEstimate, TaxSettings } from './tax';
+
+interface NetPayCardProps {
+  estimate: NetPayEstimate;
+  settings: TaxSettings;
+}
+
+const NetPayCard: React.FC<NetPayCardProps> = ({ estimate, settings }) => {
+  const rows = [
+    { label: 'Brutto', amount: estimate.gross },
+    { label: 'Ennakonpidätys', amount: -estimate.withholding },
+    { label: `TyEL ${settings.pensionPercentage} %`, amount: -estimate.pension },
+    { label: `Työttömyysvakuutus ${settings.unemploymentPercentage} %`, amount: -estimate.unemployment },
+  ];
+
+  return (
+    <div className="p-6 bg-gradient-to-r from-teal-700 to-teal-500 text-white rounded-lg shadow-md hover:shadow-xl transform hover:scale-105 transition duration-300">
+      <h3 className="text-xl font-semibold mb-2">Nettopalkka-arvio</h3>
+      <table className="w-full text-sm">
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label}>
+              <td className="pr-2">{row.label}</td>
+              <td className="text-right">{row.amount.toFixed(2)} €</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {estimate.additionalTaxed > 0 && (
+        <p className="text-xs mt-2">
+          {estimate.additionalTaxed.toFixed(2)} € tuloista ylittää tulorajan ({settings.additionalPercentage} %)
+        </p>
+      )}
+      <h3 className="text-xl font-semibold mt-4">Netto</h3>
+      <p className="text-2xl font-bold">{estimate.net.toFixed(2)} €</p>
+      <p className="text-xs mt-2">
+        Tulot vuoden alusta: {estimate.incomeAfter.toFixed(2)} € / {settings.incomeLimit.toFixed(2)} €
+      </p>
+    </div>
+  );
+};
+
+export default NetPayCard;
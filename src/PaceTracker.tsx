@@ -0,0 +1,241 @@
+// PaceTracker.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { DailyData, ShiftCheckpoint, WorkEntry, toDateKey } from './utils';
+import { getHourRules } from './hourRules';
+import { Period } from './periods';
+import { HolidayException } from './holidays';
+import { Roster } from './roster';
+import { ContractSettings, dayShiftFlags, plannedEffectiveHours } from './contract';
+import { ShiftDefinition, detectShift } from './shiftDefinitions';
+import { WAREHOUSES } from './rateTables';
+import { WorkCode, workGroupKey } from './workCodes';
+import { DEFAULT_GOAL, PeriodGoals, getGoalsForPeriod } from './goals';
+import { getRemainingPlannedShifts, usePerformanceCalculations } from './usePerformanceCalculations';
+import {
+  checkpointToEntry,
+  getPaceTargets,
+  getShiftGoalPercentages,
+  getShiftProgress,
+  getShiftStartDate,
+  toClockTime,
+} from './pace';
+
+interface PaceTrackerProps {
+  data: { [key: string]: DailyData };
+  // The saved reading of the shift in progress, if any, and its date.
+  checkpoint?: ShiftCheckpoint;
+  checkpointDate?: string;
+  period: Period;
+  warehouse: string;
+  defaultCode: string;
+  workCodes: WorkCode[];
+  holidayExceptions: HolidayException[];
+  roster: Roster;
+  contract: ContractSettings;
+  shiftDefinitions: ShiftDefinition[];
+  periodGoals: PeriodGoals;
+  // Called with the shift's start date, which a night shift keeps past midnight.
+  onSaveCheckpoint: (dateKey: string, checkpoint: ShiftCheckpoint) => void;
+  // Called at logout with the entry the checkpoint becomes.
+  onFinishShift: (entry: WorkEntry) => void;
+}
+
+/**
+ * Tracks an ongoing shift: the user enters the performance counter and sees
+ * the pace the rest of the shift needs for each target.
+ */
+const PaceTracker: React.FC<PaceTrackerProps> = ({
+  data,
+  checkpoint,
+  checkpointDate,
+  period,
+  warehouse,
+  defaultCode,
+  workCodes,
+  holidayExceptions,
+  roster,
+  contract,
+  shiftDefinitions,
+  periodGoals,
+  onSaveCheckpoint,
+  onFinishShift,
+}) => {
+  const [code, setCode] = useState(defaultCode);
+  const [entryWarehouse, setEntryWarehouse] = useState(warehouse);
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [performance, setPerformance] = useState('');
+
+  // Continue from the saved reading, or start from the current defaults.
+  useEffect(() => {
+    setCode(checkpoint?.code ?? defaultCode);
+    setEntryWarehouse(checkpoint?.warehouse ?? warehouse);
+    setStartTime(checkpoint?.startTime ?? '');
+    setEndTime(checkpoint?.endTime ?? '');
+    setPerformance(checkpoint ? String(checkpoint.performance) : '');
+  }, [checkpoint, defaultCode, warehouse]);
+
+  const group = useMemo(() => ({ warehouse: entryWarehouse, code }), [entryWarehouse, code]);
+  const groups = useMemo(() => [group], [group]);
+  const goals = useMemo(() => {
+    const periodGoalsNow = getGoalsForPeriod(periodGoals, period);
+    return { ...periodGoalsNow, [code]: periodGoalsNow[code] ?? DEFAULT_GOAL };
+  }, [periodGoals, period, code]);
+  const { remainingByGroup } = usePerformanceCalculations(
+    data,
+    period,
+    groups,
+    goals,
+    warehouse,
+    holidayExceptions,
+    roster,
+    contract
+  );
+  const remaining = remainingByGroup[workGroupKey(group)];
+  // Planned shifts of the period after the one in progress, under the selected warehouse's rules.
+  const otherPlannedEffective = useMemo(
+    () =>
+      getRemainingPlannedShifts(data, period, roster, holidayExceptions, contract)
+        .filter((shift) => shift.date !== checkpointDate)
+        .reduce((sum, shift) => sum + plannedEffectiveHours(shift.hours, contract, getHourRules(warehouse)), 0),
+    [data, period, roster, holidayExceptions, checkpointDate, contract, warehouse]
+  );
+
+  const parsePerformance = (): number | null => {
+    const value = parseFloat(performance.replace(',', '.'));
+    return isNaN(value) || value < 0 ? null : value;
+  };
+
+  const handleSave = () => {
+    const value = parsePerformance();
+    if (!startTime || !endTime || value === null) {
+      alert('Lisää vuoron alku, loppu ja suorite');
+      return;
+    }
+    const now = new Date();
+    const shiftDate = getShiftStartDate(startTime, endTime, now);
+    const [startHours, startMinutes] = startTime.split(':').map(Number);
+    const shift = detectShift(
+      shiftDefinitions,
+      new Date(shiftDate.getFullYear(), shiftDate.getMonth(), shiftDate.getDate(), startHours, startMinutes)
+    );
+    onSaveCheckpoint(toDateKey(shiftDate), {
+      code,
+      warehouse: entryWarehouse,
+      startTime,
+      endTime,
+      performance: value,
+      recordedAt: toClockTime(now),
+      ...dayShiftFlags(shiftDate, contract, roster, holidayExceptions),
+      ...(shift && { workShift: shift.id }),
+    });
+  };
+
+  const handleLogout = () => {
+    const value = parsePerformance();
+    if (!checkpoint || value === null) {
+      alert('Lisää suorite');
+      return;
+    }
+    onFinishShift(checkpointToEntry({ ...checkpoint, code, warehouse: entryWarehouse, startTime, endTime }, value, Date.now()));
+  };
+
+  const rules = getHourRules(checkpoint?.warehouse ?? entryWarehouse);
+  const progress = checkpoint ? getShiftProgress(checkpoint, rules) : null;
+  const elapsedEffective = progress ? progress.effectiveTotal - progress.remainingEffective : 0;
+  // Goal percentages are for the shift being worked, not the roster's next shift.
+  const goalPercentages =
+    progress && remaining
+      ? getShiftGoalPercentages(goals[code], remaining.average, progress.effectiveTotal, otherPlannedEffective)
+      : null;
+  const targets =
+    checkpoint && goalPercentages
+      ? getPaceTargets(
+          checkpoint,
+          [
+            { label: '100 %', percentage: 100 },
+            // Without other planned days left the period goal has no daily share.
+            ...(otherPlannedEffective > 0
+              ? [{ label: 'Jakson tavoite', percentage: Math.round(goalPercentages.periodGoal) }]
+              : []),
+            { label: 'Suoraan tavoitteeseen', percentage: Math.round(goalPercentages.instantlyToGoal) },
+          ],
+          rules
+        )
+      : [];
+
+  return (
+    <div className="mt-4 w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Vuoron seuranta</h3>
+      <div className="flex flex-wrap gap-2 mb-2">
+        <select value={code} onChange={(e) => setCode(e.target.value)} className="p-1 rounded text-black">
+          {workCodes.map((c) => (
+            <option key={c.code} value={c.code}>
+              {c.code} {c.label}
+            </option>
+          ))}
+        </select>
+        <select value={entryWarehouse} onChange={(e) => setEntryWarehouse(e.target.value)} className="p-1 rounded text-black">
+          {WAREHOUSES.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center space-x-2 mb-2">
+        <input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} className="p-1 rounded text-black" />
+        <span>–</span>
+        <input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} className="p-1 rounded text-black" />
+      </div>
+      <div className="flex items-center space-x-2 mb-2">
+        <label className="text-sm">Suorite nyt:</label>
+        <input
+          type="number"
+          value={performance}
+          onChange={(e) => setPerformance(e.target.value)}
+          className="w-24 p-1 rounded text-black"
+          step="0.01"
+          min="0"
+        />
+      </div>
+      <div className="flex gap-2 mb-2">
+        <button onClick={handleSave} className="bg-secondary text-white px-3 py-1 rounded">
+          Tallenna välitilanne
+        </button>
+        {checkpoint && (
+          <button onClick={handleLogout} className="bg-red-600 text-white px-3 py-1 rounded">
+            Kirjaudu ulos
+          </button>
+        )}
+      </div>
+      {checkpoint && progress && (
+        <>
+          <p className="text-sm">
+            Klo {checkpoint.recordedAt}: {checkpoint.performance}
+            {elapsedEffective > 0 && ` (${((checkpoint.performance / elapsedEffective) * 100).toFixed(0)}%)`}, jäljellä{' '}
+            {progress.remainingHours.toFixed(2)} h
+          </p>
+          <table className="w-full text-sm mt-2">
+            <tbody>
+              {targets.map((target) => (
+                <tr key={target.label}>
+                  <td className="pr-2">
+                    {target.label} ({target.percentage}%)
+                  </td>
+                  <td className="text-right">
+                    {target.remainingPerformance <= 0
+                      ? 'saavutettu'
+                      : `${target.remainingPerformance.toFixed(2)}, ${target.perHour.toFixed(2)} /h`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PaceTracker;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { PayEstimate } from './pay';
+
+interface PayEstimateCardProps {
+  estimate: PayEstimate;
+}
+
+const PayEstimateCard: React.FC<PayEstimateCardProps> = ({ estimate }) => {
+  return (
+    <div className="p-6 bg-gradient-to-r from-green-700 to-green-500 text-white rounded-lg shadow-md hover:shadow-xl transform hover:scale-105 transition duration-300">
+      <h3 className="text-xl font-semibold mb-2">Palkka-arvio</h3>
+      <table className="w-full text-sm">
+        <tbody>
+          {estimate.lines.map((line) => (
+            <tr key={line.label}>
+              <td className="pr-2">
+                {line.label}
+                <div className="text-xs opacity-80">{line.detail}</div>
+              </td>
+              <td className="text-right align-top">{line.amount.toFixed(2)} €</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <h3 className="text-xl font-semibold mt-4">Brutto yhteensä</h3>
+      <p className="text-2xl font-bold">{estimate.total.toFixed(2)} €</p>
+    </div>
+  );
+};
+
+export default PayEstimateCard;
@@ -0,0 +1,65 @@
+// PaySettings.tsx
+import React, { useState, useEffect } from 'react';
+import { usePayConfig } from './usePayConfig';
+
+const PaySettings: React.FC = () => {
+  const [config, saveConfig] = usePayConfig();
+  const [baseWage, setBaseWage] = useState(config.baseWage.toString());
+  const [tier1Hours, setTier1Hours] = useState(config.overtimeTier1Hours.toString());
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Sync the form once the stored config has loaded.
+  useEffect(() => {
+    setBaseWage(config.baseWage.toString());
+    setTier1Hours(config.overtimeTier1Hours.toString());
+  }, [config]);
+
+  const handleSave = () => {
+    const wage = parseFloat(baseWage.replace(',', '.'));
+    const hours = parseFloat(tier1Hours.replace(',', '.'));
+    if (isNaN(wage) || wage < 0 || isNaN(hours) || hours < 0) {
+      alert('Tarkista tuntipalkka ja ylityörajat.');
+      return;
+    }
+    saveConfig({ baseWage: wage, overtimeTier1Hours: hours });
+    setMessage('Palkka tallennettu');
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Palkka</h3>
+      <div className="flex items-center space-x-2 mb-2">
+        <label className="w-48 text-sm">Tuntipalkka:</label>
+        <input
+          type="number"
+          value={baseWage}
+          onChange={(e) => setBaseWage(e.target.value)}
+          className="w-24 p-1 rounded text-black"
+          step="0.01"
+          min="0"
+        />
+        <span className="text-sm">€/h</span>
+      </div>
+      <div className="flex items-center space-x-2 mb-2">
+        <label className="w-48 text-sm">50 % ylityötä päivässä:</label>
+        <input
+          type="number"
+          value={tier1Hours}
+          onChange={(e) => setTier1Hours(e.target.value)}
+          className="w-24 p-1 rounded text-black"
+          step="0.25"
+          min="0"
+        />
+        <span className="text-sm">h</span>
+      </div>
+      <p className="text-xs text-gray-400 mb-2">Tämän jälkeen ylityö ja vapaapäivän työ maksetaan 100 % korotuksella.</p>
+      <button onClick={handleSave} className="bg-secondary text-white px-3 py-2 rounded">
+        Tallenna
+      </button>
+      {message && <div className="mt-4 p-2 bg-green-500 text-white rounded">{message}</div>}
+    </div>
+  );
+};
+
+export default PaySettings;
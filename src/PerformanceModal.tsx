@@ -1,5 +1,5 @@
 // PerformanceModal.tsx
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import TimePicker from 'react-time-picker';
 import 'react-clock/dist/Clock.css';
 
@@ -23,30 +23,25 @@ function addHours(time: string, hoursToAdd: number): string {
   const hour = parseInt(hourStr, 10);
   const minute = parseInt(minuteStr, 10);
   const date = new Date(0, 0, 0, hour, minute);
-  date.setHours(date.getHours() + hoursToAdd);
+  date.setMinutes(date.getMinutes() + Math.round(hoursToAdd * 60));
   const newHour = date.getHours().toString().padStart(2, '0');
   const newMinute = date.getMinutes().toString().padStart(2, '0');
   return `${newHour}:${newMinute}`;
 }
 
-// Helper function to determine default sign‑in time.
-function getDefaultStartTime(): string {
-  const now = new Date();
-  const totalMins = now.getHours() * 60 + now.getMinutes();
-  const morningStart = 5 * 60 + 45;
-  const morningEnd = 14 * 60 + 15;
-  const eveningStart = 13 * 60 + 45;
-  const eveningEnd = 22 * 60 + 15;
-  if (totalMins >= morningStart && totalMins < morningEnd) {
-    return "05:45";
-  } else if (totalMins >= eveningStart && totalMins < eveningEnd) {
-    return "13:45";
-  } else {
-    return "21:45";
-  }
-}
-
 import { effectiveHours } from './utils';
+import { HourRuleset, defaultHourRules } from './hourRules';
+import { WorkCode } from './workCodes';
+import { WAREHOUSES } from './rateTables';
+import { ShiftDefinition } from './shiftDefinitions';
+import { ShiftSegmentDraft, getSegmentHours, parseSegmentDrafts, validateSegments } from './shiftSegments';
+import {
+  TuntikorttiItem,
+  TuntikorttiReason,
+  TUNTIKORTTI_REASON_LABELS,
+  sumTuntikorttiMinutes,
+  formatMinutes,
+} from './tuntikortti';
 
 interface PerformanceModalProps {
   formData: {
@@ -56,28 +51,47 @@ interface PerformanceModalProps {
     freeDay: boolean;
     startTime?: string;
     endTime?: string;
-    trukki: boolean;
-    // The accumulated total of tuntikortti in minutes.
-    tuntikortti: string;
-    // The current increment input (in minutes).
-    tuntikorttiIncrement: string;
+    code: string;
+    warehouse: string;
+    // Shift definition id; empty when none is chosen.
+    workShift: string;
+    tuntikorttiItems: TuntikorttiItem[];
+    // Non-empty for a split shift; the single-shift fields are then unused.
+    segments: ShiftSegmentDraft[];
   };
-  defaultShift: 'morning' | 'evening' | 'night';
+  // The shift going on when the modal was opened; gives the default times.
+  defaultShift: ShiftDefinition;
+  shiftDefinitions: ShiftDefinition[];
+  // Length of a new shift: the shift's planned hours or the contract's length.
+  defaultHours: number;
   onFormChange: (e: any) => void;
+  onTuntikorttiItemsChange: (items: TuntikorttiItem[]) => void;
+  onSegmentsChange: (segments: ShiftSegmentDraft[]) => void;
   onSubmit: (e: React.FormEvent) => void;
   onClose: () => void;
   editing?: boolean; // When true, we're editing an existing entry.
+  hourRules?: HourRuleset;
+  workCodes: WorkCode[];
 }
 
 const PerformanceModal: React.FC<PerformanceModalProps> = ({
   formData,
   defaultShift,
   onFormChange,
+  onTuntikorttiItemsChange,
+  onSegmentsChange,
   onSubmit,
   onClose,
   editing = false,
+  hourRules = defaultHourRules,
+  workCodes,
+  shiftDefinitions,
+  defaultHours,
 }) => {
   const performanceInputRef = useRef<HTMLInputElement>(null);
+  const [tuntikorttiMinutes, setTuntikorttiMinutes] = useState('');
+  const [tuntikorttiReason, setTuntikorttiReason] = useState<TuntikorttiReason>('siivous');
+  const [tuntikorttiNote, setTuntikorttiNote] = useState('');
   
   useEffect(() => {
     performanceInputRef.current?.focus();
@@ -86,20 +100,19 @@ const PerformanceModal: React.FC<PerformanceModalProps> = ({
   // Only set a default startTime when NOT editing.
   useEffect(() => {
     if (!editing && (!formData.startTime || formData.startTime.trim() === "")) {
-      const defaultStart = getDefaultStartTime();
-      onFormChange({ target: { name: 'startTime', value: defaultStart } } as any);
+      onFormChange({ target: { name: 'startTime', value: defaultShift.start } } as any);
     }
-  }, [formData.startTime, onFormChange, editing]);
+  }, [formData.startTime, onFormChange, editing, defaultShift]);
 
   // Only auto-calculate endTime and hours when NOT editing.
   useEffect(() => {
     if (!editing && formData.startTime && (!formData.endTime || formData.endTime.trim() === "")) {
-      const autoEnd = addHours(formData.startTime, 8);
+      const autoEnd = addHours(formData.startTime, defaultHours);
       onFormChange({ target: { name: 'endTime', value: autoEnd } } as any);
       const hrs = computeHoursFromTimes(formData.startTime, autoEnd);
       onFormChange({ target: { name: 'hours', value: hrs.toFixed(2) } } as any);
     }
-  }, [formData.startTime, formData.endTime, onFormChange, editing]);
+  }, [formData.startTime, formData.endTime, onFormChange, editing, defaultHours]);
 
   const handleStartTime = (newVal: string) => {
     onFormChange({ target: { name: 'startTime', value: newVal } } as any);
@@ -117,33 +130,89 @@ const PerformanceModal: React.FC<PerformanceModalProps> = ({
     }
   };
 
-  // When the user clicks "Lisää" for tuntikortti, add the current increment to the accumulated total.
+  // When the user clicks "Lisää" for tuntikortti, add a new item with the chosen reason.
   const handleAddTuntikortti = () => {
-    const currentTotal = parseFloat(formData.tuntikortti || "0");
-    const increment = parseFloat(formData.tuntikorttiIncrement || "0");
-    const newTotal = currentTotal + increment;
-    onFormChange({ target: { name: 'tuntikortti', value: newTotal.toString() } } as any);
-    // Clear the increment input.
-    onFormChange({ target: { name: 'tuntikorttiIncrement', value: '' } } as any);
+    const minutes = parseFloat(tuntikorttiMinutes);
+    if (isNaN(minutes) || minutes <= 0) return;
+    const item: TuntikorttiItem = {
+      id: Date.now(),
+      minutes,
+      reason: tuntikorttiReason,
+      ...(tuntikorttiNote.trim() && { note: tuntikorttiNote.trim() }),
+    };
+    onTuntikorttiItemsChange([...formData.tuntikorttiItems, item]);
+    setTuntikorttiMinutes('');
+    setTuntikorttiNote('');
+  };
+
+  const handleUpdateTuntikortti = (id: number, changes: Partial<TuntikorttiItem>) => {
+    onTuntikorttiItemsChange(formData.tuntikorttiItems.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const handleRemoveTuntikortti = (id: number) => {
+    onTuntikorttiItemsChange(formData.tuntikorttiItems.filter((item) => item.id !== id));
   };
 
-  // "Vähennä työtunneista" subtracts the accumulated tuntikortti (converted to hours) from the current hours.
+  // "Vähennä työtunneista" subtracts the items not yet deducted from the current hours.
+  // The items stay in the log, marked as deducted, so they are not subtracted twice.
+  const pendingTuntikortti = formData.tuntikorttiItems.filter((item) => !item.deducted);
   const handleDeductTuntikortti = () => {
-    const currentTuntikortti = parseFloat(formData.tuntikortti || "0");
-    const deductionHours = currentTuntikortti / 60; // Convert minutes to hours.
+    const deductionHours = sumTuntikorttiMinutes(pendingTuntikortti) / 60; // Convert minutes to hours.
     const currentHours = parseFloat(formData.hours || "0");
     const newHours = Math.max(0, currentHours - deductionHours);
     onFormChange({ target: { name: 'hours', value: newHours.toFixed(2) } } as any);
-    // Optionally reset the accumulated tuntikortti.
-    onFormChange({ target: { name: 'tuntikortti', value: '' } } as any);
+    onTuntikorttiItemsChange(formData.tuntikorttiItems.map((item) => ({ ...item, deducted: true })));
+  };
+
+  const isSplit = formData.segments.length > 0;
+  const parsedSegments = parseSegmentDrafts(formData.segments);
+  const segmentHours = getSegmentHours(parsedSegments);
+  const segmentProblems = isSplit ? validateSegments(parsedSegments) : [];
+
+  // A split shift starts as the current shift in a single segment.
+  const handleSplitToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onSegmentsChange(
+      e.target.checked
+        ? [
+            {
+              start: formData.startTime || '',
+              end: formData.endTime || '',
+              code: formData.code,
+              performance: formData.performance,
+            },
+          ]
+        : []
+    );
+  };
+
+  // New segments continue from where the previous one ended.
+  const handleAddSegment = () => {
+    const last = formData.segments[formData.segments.length - 1];
+    onSegmentsChange([...formData.segments, { start: last?.end ?? '', end: '', code: last?.code ?? formData.code, performance: '' }]);
+  };
+
+  const handleSegmentChange = (index: number, field: keyof ShiftSegmentDraft, value: string) => {
+    onSegmentsChange(formData.segments.map((segment, i) => (i === index ? { ...segment, [field]: value } : segment)));
+  };
+
+  const handleRemoveSegment = (index: number) => {
+    onSegmentsChange(formData.segments.filter((_, i) => i !== index));
   };
 
   const handleLocalSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (isSplit) {
+      if (segmentProblems.length > 0) {
+        alert(segmentProblems.join('\n'));
+        return;
+      }
+      onSubmit(e);
+      return;
+    }
     // Allow submission if either performance or tuntikortti is provided.
     const parsedPerformance = formData.performance ? parseFloat(formData.performance) : 0;
     const parsedHours = parseFloat(formData.hours);
-    if (!formData.performance && !formData.tuntikortti) {
+    if (!formData.performance && formData.tuntikorttiItems.length === 0) {
       alert("Syötä joko suorite tai tuntikortti.");
       return;
     }
@@ -156,7 +225,7 @@ const PerformanceModal: React.FC<PerformanceModalProps> = ({
 
   const hoursNumber = parseFloat(formData.hours) || 0;
   const perfValue = parseFloat(formData.performance) || 0;
-  const effective = effectiveHours(hoursNumber, formData.overtime, formData.freeDay);
+  const effective = effectiveHours(hoursNumber, formData.overtime, formData.freeDay, true, hourRules);
   const currentPercentage = effective > 0 ? (perfValue / effective) * 100 : 0;
   const additionalRequired = effective - perfValue;
 
@@ -165,86 +234,210 @@ const PerformanceModal: React.FC<PerformanceModalProps> = ({
       <div className="bg-white p-6 rounded text-black shadow-lg w-80 transform transition-all duration-300">
         <h3 className="text-xl font-bold mb-4">Lisää suorite</h3>
         <form onSubmit={handleLocalSubmit}>
-          <div className="mb-4">
-            <p className="font-semibold mb-2">Kirjautumisaika:</p>
-            <input
-              type="time"
-              value={formData.startTime || ''}
-              onChange={(e) => handleStartTime(e.target.value)}
-              className="w-full border border-gray-300 rounded-md p-2 text-lg focus:ring-2 focus:ring-secondary focus:outline-none"
-              aria-label="Kirjautumisaika"
-              step="60"
-            />
-          </div>
-          <div className="mb-4">
-            <p className="font-semibold mb-2">Kirjaudu ulos:</p>
-            <input
-              type="time"
-              value={formData.endTime || ''}
-              onChange={(e) => handleEndTime(e.target.value)}
-              className="w-full border border-gray-300 rounded-md p-2 text-lg focus:ring-2 focus:ring-secondary focus:outline-none"
-              aria-label="Kirjaudu ulos"
-              step="60"
-            />
-          </div>
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-black">Suorite:</label>
-            <input
-              ref={performanceInputRef}
-              type="number"
-              name="performance"
-              value={formData.performance}
-              onChange={onFormChange}
-              onKeyDown={(e) => {
-                if (e.key === "Enter") {
-                  // On Enter, submit immediately.
-                  e.preventDefault();
-                  handleLocalSubmit(e);
-                }
-              }}
-              className="mt-1 block w-full border border-black rounded-md"
-              step="1"
-              // Removed required attribute so that tuntikortti can be submitted alone.
-            />
-            <p className="text-sm text-gray-600 mt-1">
-              {currentPercentage.toFixed(1)}%. Tarvitset {additionalRequired.toFixed(2)} saavuttaaksesi 100%.
-            </p>
-          </div>
-          <div className="mb-4">
-            <label className="block text-sm font-medium text-black">Työtunnit:</label>
-            <input
-              type="number"
-              name="hours"
-              value={formData.hours || ''}
-              onChange={onFormChange}
-              className="mt-1 block w-full border border-black rounded-md"
-              step="any"
-              min="0"
-              max="24"
-              required
-            />
+          <div className="mb-4 flex items-center">
+            <label className="block text-sm font-medium text-black mr-2">
+              Jaettu vuoro:
+            </label>
+            <input type="checkbox" checked={isSplit} onChange={handleSplitToggle} className="h-4 w-4" />
           </div>
+          {isSplit ? (
+            <div className="mb-4">
+              {formData.segments.map((segment, index) => (
+                <div key={index} className="mb-2 p-2 border border-gray-300 rounded-md">
+                  <div className="flex items-center">
+                    <input
+                      type="time"
+                      value={segment.start}
+                      onChange={(e) => handleSegmentChange(index, 'start', e.target.value)}
+                      className="w-24 border border-black rounded-md"
+                      aria-label="Jakson alku"
+                    />
+                    <span className="mx-1">–</span>
+                    <input
+                      type="time"
+                      value={segment.end}
+                      onChange={(e) => handleSegmentChange(index, 'end', e.target.value)}
+                      className="w-24 border border-black rounded-md"
+                      aria-label="Jakson loppu"
+                    />
+                    <button type="button" onClick={() => handleRemoveSegment(index)} className="ml-1 px-1 text-red-600">
+                      ✕
+                    </button>
+                  </div>
+                  <div className="flex items-center mt-1">
+                    <select
+                      value={segment.code}
+                      onChange={(e) => handleSegmentChange(index, 'code', e.target.value)}
+                      className="border border-black rounded-md p-1"
+                    >
+                      {workCodes.map((c) => (
+                        <option key={c.code} value={c.code}>
+                          {c.code} {c.label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      value={segment.performance}
+                      onChange={(e) => handleSegmentChange(index, 'performance', e.target.value)}
+                      placeholder="Suorite"
+                      className="ml-2 w-20 border border-black rounded-md"
+                      step="1"
+                    />
+                    <span className="ml-2 text-sm text-gray-600">{segmentHours[index].toFixed(2)} h</span>
+                  </div>
+                </div>
+              ))}
+              <button type="button" onClick={handleAddSegment} className="px-3 py-2 bg-secondary text-white rounded">
+                Lisää jakso
+              </button>
+              <p className="mt-1 text-sm text-gray-600">
+                Yhteensä {segmentHours.reduce((sum, h) => sum + h, 0).toFixed(2)} h. Tauko vähennetään jakson väliin tai vuoron puolivälin jaksosta.
+              </p>
+              {segmentProblems.map((problem) => (
+                <p key={problem} className="text-sm text-red-600">
+                  {problem}
+                </p>
+              ))}
+            </div>
+          ) : (
+            <>
+              <div className="mb-4">
+                <p className="font-semibold mb-2">Kirjautumisaika:</p>
+                <input
+                  type="time"
+                  value={formData.startTime || ''}
+                  onChange={(e) => handleStartTime(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md p-2 text-lg focus:ring-2 focus:ring-secondary focus:outline-none"
+                  aria-label="Kirjautumisaika"
+                  step="60"
+                />
+              </div>
+              <div className="mb-4">
+                <p className="font-semibold mb-2">Kirjaudu ulos:</p>
+                <input
+                  type="time"
+                  value={formData.endTime || ''}
+                  onChange={(e) => handleEndTime(e.target.value)}
+                  className="w-full border border-gray-300 rounded-md p-2 text-lg focus:ring-2 focus:ring-secondary focus:outline-none"
+                  aria-label="Kirjaudu ulos"
+                  step="60"
+                />
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-black">Suorite:</label>
+                <input
+                  ref={performanceInputRef}
+                  type="number"
+                  name="performance"
+                  value={formData.performance}
+                  onChange={onFormChange}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      // On Enter, submit immediately.
+                      e.preventDefault();
+                      handleLocalSubmit(e);
+                    }
+                  }}
+                  className="mt-1 block w-full border border-black rounded-md"
+                  step="1"
+                  // Removed required attribute so that tuntikortti can be submitted alone.
+                />
+                <p className="text-sm text-gray-600 mt-1">
+                  {currentPercentage.toFixed(1)}%. Tarvitset {additionalRequired.toFixed(2)} saavuttaaksesi 100%.
+                </p>
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-black">Työtunnit:</label>
+                <input
+                  type="number"
+                  name="hours"
+                  value={formData.hours || ''}
+                  onChange={onFormChange}
+                  className="mt-1 block w-full border border-black rounded-md"
+                  step="any"
+                  min="0"
+                  max="24"
+                  required
+                />
+              </div>
+            </>
+          )}
           {/* Tuntikortti fields */}
           <div className="mb-4">
             <label className="block text-sm font-medium text-black">Lisää tuntikortti (min):</label>
             <div className="flex">
               <input
                 type="number"
-                name="tuntikorttiIncrement"
-                value={formData.tuntikorttiIncrement || ''}
-                onChange={onFormChange}
-                className="mt-1 block w-full border border-black rounded-md"
+                value={tuntikorttiMinutes}
+                onChange={(e) => setTuntikorttiMinutes(e.target.value)}
+                className="mt-1 block w-20 border border-black rounded-md"
                 step="1"
                 min="0"
               />
+              <select
+                value={tuntikorttiReason}
+                onChange={(e) => setTuntikorttiReason(e.target.value as TuntikorttiReason)}
+                className="mt-1 ml-2 block flex-1 border border-black rounded-md"
+              >
+                {Object.entries(TUNTIKORTTI_REASON_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
               <button type="button" onClick={handleAddTuntikortti} className="ml-2 px-3 py-2 bg-secondary text-white rounded">
                 Lisää
               </button>
             </div>
+            <input
+              type="text"
+              value={tuntikorttiNote}
+              onChange={(e) => setTuntikorttiNote(e.target.value)}
+              placeholder="Lisätieto (valinnainen)"
+              className="mt-1 block w-full border border-black rounded-md"
+            />
+            {formData.tuntikorttiItems.map((item) => (
+              <div key={item.id} className="flex items-center mt-1 text-sm">
+                <input
+                  type="number"
+                  value={item.minutes}
+                  onChange={(e) => handleUpdateTuntikortti(item.id, { minutes: parseFloat(e.target.value) || 0 })}
+                  className="w-14 border border-gray-400 rounded-md"
+                  step="1"
+                  min="0"
+                />
+                <select
+                  value={item.reason}
+                  onChange={(e) => handleUpdateTuntikortti(item.id, { reason: e.target.value as TuntikorttiReason })}
+                  className="ml-1 border border-gray-400 rounded-md"
+                >
+                  {Object.entries(TUNTIKORTTI_REASON_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={item.note ?? ''}
+                  onChange={(e) => handleUpdateTuntikortti(item.id, { note: e.target.value })}
+                  className="ml-1 flex-1 min-w-0 border border-gray-400 rounded-md"
+                />
+                <button type="button" onClick={() => handleRemoveTuntikortti(item.id)} className="ml-1 px-1 text-red-600">
+                  ✕
+                </button>
+              </div>
+            ))}
             <p className="mt-1 text-sm text-gray-600">
-              Tuntikortti: {formData.tuntikortti ? formData.tuntikortti : '0'} min
+              Tuntikortti: {formatMinutes(sumTuntikorttiMinutes(formData.tuntikorttiItems))}
             </p>
-            <button type="button" onClick={handleDeductTuntikortti} className="mt-2 px-3 py-2 bg-red-600 text-white rounded">
+            <button
+              type="button"
+              onClick={handleDeductTuntikortti}
+              disabled={pendingTuntikortti.length === 0 || isSplit}
+              className="mt-2 px-3 py-2 bg-red-600 text-white rounded disabled:opacity-50"
+            >
               Vähennä työtunneista
             </button>
           </div>
@@ -272,17 +465,67 @@ const PerformanceModal: React.FC<PerformanceModalProps> = ({
               className="h-4 w-4"
             />
           </div>
+          {!isSplit && (
+            <div className="mb-4 flex items-center">
+              <label className="block text-sm font-medium text-black mr-2">
+                Työkoodi:
+              </label>
+              <select
+                name="code"
+                value={formData.code}
+                onChange={onFormChange}
+                className="border border-black rounded-md p-1"
+              >
+                {workCodes.map((c) => (
+                  <option key={c.code} value={c.code}>
+                    {c.code} {c.label}
+                  </option>
+                ))}
+                {/* Keep the code of an entry whose code has since been removed. */}
+                {!workCodes.some((c) => c.code === formData.code) && (
+                  <option value={formData.code}>{formData.code}</option>
+                )}
+              </select>
+            </div>
+          )}
           <div className="mb-4 flex items-center">
             <label className="block text-sm font-medium text-black mr-2">
-              Trukki:
+              Vuoro:
             </label>
-            <input
-              type="checkbox"
-              name="trukki"
-              checked={formData.trukki}
+            <select
+              name="workShift"
+              value={formData.workShift}
               onChange={onFormChange}
-              className="h-4 w-4"
-            />
+              className="border border-black rounded-md p-1"
+            >
+              <option value="">-</option>
+              {shiftDefinitions.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.name} {d.start}–{d.end}
+                </option>
+              ))}
+              {/* Keep the shift of an entry whose definition has since been removed. */}
+              {formData.workShift && !shiftDefinitions.some((d) => d.id === formData.workShift) && (
+                <option value={formData.workShift}>{formData.workShift}</option>
+              )}
+            </select>
+          </div>
+          <div className="mb-4 flex items-center">
+            <label className="block text-sm font-medium text-black mr-2">
+              Varasto:
+            </label>
+            <select
+              name="warehouse"
+              value={formData.warehouse}
+              onChange={onFormChange}
+              className="border border-black rounded-md p-1"
+            >
+              {WAREHOUSES.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.label}
+                </option>
+              ))}
+            </select>
           </div>
           <div className="flex justify-end">
             <button
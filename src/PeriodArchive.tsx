@@ -0,0 +1,100 @@
+// PeriodArchive.tsx
+import React, { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useCalendarData } from './useCalendarData';
+import { usePeriodModel } from './usePeriodModel';
+import { usePeriodGoals } from './usePeriodGoals';
+import { useRateTables } from './useRateTables';
+import { useWorkCodes } from './useWorkCodes';
+import { getPeriodForDate } from './periods';
+import { getWarehouseLabel } from './rateTables';
+import { getWorkCodeLabel, sortWorkCodes } from './workCodes';
+import { toDateKey } from './utils';
+import { getPeriodArchive } from './stats';
+
+const formatShortDate = (d: Date): string => `${d.getDate()}.${d.getMonth() + 1}.`;
+
+/**
+ * Every past period with entries: averages against the goal of the time, paid
+ * hours and performance bonus. A row opens the calendar at its period.
+ */
+const PeriodArchive: React.FC = () => {
+  const { data, warehouse } = useCalendarData();
+  const [periodModel] = usePeriodModel();
+  const [periodGoals] = usePeriodGoals();
+  const { tables: rateTables } = useRateTables();
+  const [workCodes] = useWorkCodes();
+  const navigate = useNavigate();
+
+  const archive = useMemo(
+    () =>
+      getPeriodArchive(data, getPeriodForDate(new Date(), periodModel), periodModel, periodGoals, {
+        warehouse,
+        rateTables,
+        workCodes,
+      }),
+    [data, periodModel, periodGoals, warehouse, rateTables, workCodes]
+  );
+  const codes = sortWorkCodes(
+    Array.from(new Set(archive.flatMap((row) => row.results.map((result) => result.code)))),
+    workCodes
+  );
+  const severalWarehouses = archive.some((row) => row.results.some((result) => result.warehouse !== warehouse));
+
+  return (
+    <div className="bg-primary min-h-screen text-gray-100 flex flex-col items-center p-4 space-y-6">
+      <h2 className="text-secondary text-2xl font-bold mb-2">Jaksot</h2>
+      <div className="w-full max-w-2xl p-4 bg-gray-800 rounded shadow-lg overflow-x-auto">
+        {archive.length === 0 ? (
+          <p className="text-sm text-gray-400">Aiemmilta jaksoilta ei ole suoritteita.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className="text-left pr-2">Jakso</th>
+                {codes.map((code) => (
+                  <th key={code} className="text-right px-2">
+                    {getWorkCodeLabel(workCodes, code)}
+                  </th>
+                ))}
+                <th className="text-right px-2">Tunnit</th>
+                <th className="text-right pl-2">Palkkio</th>
+              </tr>
+            </thead>
+            <tbody>
+              {archive.map((row) => (
+                <tr
+                  key={row.period.start.getTime()}
+                  onClick={() => navigate(`/?paiva=${toDateKey(row.period.start)}`)}
+                  className="cursor-pointer hover:bg-gray-700"
+                >
+                  <td className="pr-2 py-1">
+                    {formatShortDate(row.period.start)}–{formatShortDate(row.period.end)}
+                    {row.period.end.getFullYear()}
+                  </td>
+                  {codes.map((code) => (
+                    <td key={code} className="text-right px-2">
+                      {row.results
+                        .filter((result) => result.code === code)
+                        .map((result) => (
+                          <div key={result.warehouse} className={result.met ? 'text-green-400' : 'text-yellow-400'}>
+                            {result.percentage}% / {result.goal}% {result.met ? '✓' : '✗'}
+                            {severalWarehouses && `, ${getWarehouseLabel(result.warehouse)}`}
+                          </div>
+                        ))}
+                    </td>
+                  ))}
+                  <td className="text-right px-2">{row.paidHours.toFixed(2)} h</td>
+                  <td className="text-right pl-2">{row.euros.toFixed(2)} €</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="text-xs text-gray-400 mt-2">Keskisuorite / silloin voimassa ollut tavoite. Avaa jakso kalenterissa napauttamalla riviä.</p>
+      </div>
+    </div>
+  );
+};
+
+export default PeriodArchive;
@@ -0,0 +1,87 @@
+// PeriodSettings.tsx
+import React, { useState, useEffect } from 'react';
+import { PeriodModel, PERIOD_MODEL_LABELS, getPeriodForDate, isValidPeriodModel } from './periods';
+import { usePeriodModel } from './usePeriodModel';
+import { toDateKey } from './utils';
+
+const PeriodSettings: React.FC = () => {
+  const [periodModel, savePeriodModel] = usePeriodModel();
+  const [kind, setKind] = useState<PeriodModel['kind']>(periodModel.kind);
+  const [anchor, setAnchor] = useState(toDateKey(new Date()));
+  const [lengthDays, setLengthDays] = useState('28');
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Sync the form once the stored model has loaded.
+  useEffect(() => {
+    setKind(periodModel.kind);
+    if (periodModel.kind !== 'semiMonthly') {
+      setAnchor(periodModel.anchor);
+    }
+    if (periodModel.kind === 'custom') {
+      setLengthDays(periodModel.lengthDays.toString());
+    }
+  }, [periodModel]);
+
+  const draft: PeriodModel =
+    kind === 'semiMonthly'
+      ? { kind }
+      : kind === 'custom'
+      ? { kind, anchor, lengthDays: parseInt(lengthDays, 10) }
+      : { kind, anchor };
+  const draftIsValid = isValidPeriodModel(draft);
+
+  const handleSave = () => {
+    if (!draftIsValid) {
+      alert('Tarkista jakson alkupäivä ja pituus.');
+      return;
+    }
+    savePeriodModel(draft);
+    setMessage('Jaksotus tallennettu');
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Palkkajaksot</h3>
+      <select
+        value={kind}
+        onChange={(e) => setKind(e.target.value as PeriodModel['kind'])}
+        className="p-2 rounded text-black mb-2 w-full"
+      >
+        {Object.entries(PERIOD_MODEL_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {kind !== 'semiMonthly' && (
+        <div className="flex items-center space-x-2 mb-2">
+          <label className="text-sm">Jakso alkaa:</label>
+          <input type="date" value={anchor} onChange={(e) => setAnchor(e.target.value)} className="p-1 rounded text-black" />
+        </div>
+      )}
+      {kind === 'custom' && (
+        <div className="flex items-center space-x-2 mb-2">
+          <label className="text-sm">Pituus (pv):</label>
+          <input
+            type="number"
+            value={lengthDays}
+            onChange={(e) => setLengthDays(e.target.value)}
+            className="w-20 p-1 rounded text-black"
+            min="1"
+            step="1"
+          />
+        </div>
+      )}
+      {draftIsValid && (
+        <p className="text-sm mb-2">Nykyinen jakso: {getPeriodForDate(new Date(), draft).label}</p>
+      )}
+      <button onClick={handleSave} className="bg-secondary text-white px-3 py-2 rounded">
+        Tallenna
+      </button>
+      {message && <div className="mt-4 p-2 bg-green-500 text-white rounded">{message}</div>}
+    </div>
+  );
+};
+
+export default PeriodSettings;
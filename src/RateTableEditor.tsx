@@ -0,0 +1,261 @@
+// RateTableEditor.tsx
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  RateTable,
+  WAREHOUSES,
+  BASELINE_VALID_FROM,
+  defaultRateTables,
+  getRateTableVersions,
+  parseRateTables,
+  upsertRateTables,
+  removeRateTable,
+} from './rateTables';
+import { useRateTables } from './useRateTables';
+import { useWorkCodes } from './useWorkCodes';
+import { DEFAULT_WORK_CODE } from './workCodes';
+
+interface RateRow {
+  percentage: string;
+  euro: string;
+}
+
+const tableToRows = (table: RateTable | undefined): RateRow[] => {
+  if (!table) return [];
+  return Object.keys(table.rates)
+    .map(Number)
+    .sort((a, b) => b - a)
+    .map((pct) => ({ percentage: pct.toString(), euro: table.rates[String(pct)].toString() }));
+};
+
+const formatValidFrom = (validFrom: string): string => {
+  if (validFrom === BASELINE_VALID_FROM) return 'Alkuperäinen';
+  const [year, month, day] = validFrom.split('-');
+  return `${day}.${month}.${year} alkaen`;
+};
+
+const RateTableEditor: React.FC = () => {
+  const { tables, customTables, saveCustomTables } = useRateTables();
+  const [warehouse, setWarehouse] = useState('pakaste');
+  const [workCodes] = useWorkCodes();
+  const [code, setCode] = useState(DEFAULT_WORK_CODE);
+  const [validFrom, setValidFrom] = useState<string | null>(null);
+  const [newVersionDate, setNewVersionDate] = useState('');
+  const [rows, setRows] = useState<RateRow[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const versions = getRateTableVersions(tables, warehouse, code);
+  // Without an explicit choice, edit the newest version.
+  const currentTable = versions.find((t) => t.validFrom === validFrom) ?? versions[versions.length - 1];
+  const currentValidFrom = currentTable?.validFrom ?? BASELINE_VALID_FROM;
+  const isCustom = customTables.some(
+    (t) => t.warehouse === warehouse && t.code === code && t.validFrom === currentValidFrom
+  );
+  const hasDefault = defaultRateTables.some(
+    (t) => t.warehouse === warehouse && t.code === code && t.validFrom === currentValidFrom
+  );
+
+  // Reload the draft whenever the selection or the stored tables change.
+  useEffect(() => {
+    setRows(tableToRows(currentTable));
+  }, [currentTable]);
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const handleRowChange = (index: number, field: keyof RateRow, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleAddRow = () => {
+    const highest = rows.reduce((max, row) => Math.max(max, parseInt(row.percentage, 10) || 0), 0);
+    setRows((prev) => [{ percentage: (highest + 1).toString(), euro: '' }, ...prev]);
+  };
+
+  const handleRemoveRow = (index: number) => {
+    setRows((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    const rates: { [key: string]: string } = {};
+    rows.forEach((row) => {
+      if (row.percentage.trim() !== '' && row.euro.trim() !== '') {
+        rates[row.percentage.trim()] = row.euro.replace(',', '.').trim();
+      }
+    });
+    try {
+      const [table] = parseRateTables({ warehouse, code, validFrom: currentValidFrom, rates });
+      saveCustomTables(upsertRateTables(customTables, [table]));
+      showMessage('Taulukko tallennettu');
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleReset = () => {
+    if (!currentTable) return;
+    saveCustomTables(removeRateTable(customTables, currentTable));
+    if (!hasDefault) setValidFrom(null);
+    showMessage(hasDefault ? 'Oletustaulukko palautettu' : 'Taulukko poistettu');
+  };
+
+  // A new version starts as a copy of the one being viewed, so only the
+  // changed rows need editing. Older versions stay untouched.
+  const handleAddVersion = () => {
+    if (!newVersionDate) {
+      alert('Valitse voimaantulopäivä.');
+      return;
+    }
+    if (versions.some((t) => t.validFrom === newVersionDate)) {
+      alert('Tälle päivälle on jo taulukko.');
+      return;
+    }
+    const table: RateTable = {
+      warehouse,
+      code,
+      validFrom: newVersionDate,
+      rates: { ...(currentTable?.rates ?? {}) },
+    };
+    saveCustomTables(upsertRateTables(customTables, [table]));
+    setValidFrom(newVersionDate);
+    setNewVersionDate('');
+    showMessage('Uusi versio lisätty');
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file
+      .text()
+      .then((text) => {
+        const imported = parseRateTables(JSON.parse(text));
+        saveCustomTables(upsertRateTables(customTables, imported));
+        showMessage(`Tuotu ${imported.length} taulukkoa`);
+      })
+      .catch((err) => alert(err instanceof SyntaxError ? 'Tiedosto ei ole JSON-muodossa.' : err.message));
+    e.target.value = '';
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(tables, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'suoritetaulukot.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Suoritetaulukot (%→€/h)</h3>
+      <div className="flex space-x-2 mb-4">
+        <select
+          value={warehouse}
+          onChange={(e) => {
+            setWarehouse(e.target.value);
+            setValidFrom(null);
+          }}
+          className="p-2 rounded text-black"
+        >
+          {WAREHOUSES.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setValidFrom(null);
+          }}
+          className="p-2 rounded text-black"
+        >
+          {workCodes.map((c) => (
+            <option key={c.code} value={c.code}>
+              {c.code} {c.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {versions.length > 0 && (
+        <div className="mb-2">
+          <label className="mr-2 text-sm">Versio:</label>
+          <select value={currentValidFrom} onChange={(e) => setValidFrom(e.target.value)} className="p-1 rounded text-black">
+            {versions.map((t) => (
+              <option key={t.validFrom} value={t.validFrom}>
+                {formatValidFrom(t.validFrom)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className="flex items-center space-x-2 mb-4">
+        <input
+          type="date"
+          value={newVersionDate}
+          onChange={(e) => setNewVersionDate(e.target.value)}
+          className="p-1 rounded text-black"
+        />
+        <button onClick={handleAddVersion} className="bg-gray-600 text-white px-3 py-1 rounded">
+          Lisää versio
+        </button>
+      </div>
+      <p className="text-sm mb-2">
+        {currentTable ? (isCustom ? 'Oma taulukko' : 'Oletustaulukko') : 'Ei taulukkoa – lisää rivit tai tuo tiedosto.'}
+      </p>
+      <div className="max-h-80 overflow-y-auto mb-2">
+        {rows.map((row, index) => (
+          <div key={index} className="flex items-center space-x-2 mb-1">
+            <input
+              type="number"
+              value={row.percentage}
+              onChange={(e) => handleRowChange(index, 'percentage', e.target.value)}
+              className="w-20 p-1 rounded text-black"
+              step="1"
+            />
+            <span>% →</span>
+            <input
+              type="number"
+              value={row.euro}
+              onChange={(e) => handleRowChange(index, 'euro', e.target.value)}
+              className="w-24 p-1 rounded text-black"
+              step="0.01"
+              min="0"
+            />
+            <span>€/h</span>
+            <button onClick={() => handleRemoveRow(index)} className="text-red-400 px-2">
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <button onClick={handleAddRow} className="bg-gray-600 text-white px-3 py-2 rounded">
+          Lisää rivi
+        </button>
+        <button onClick={handleSave} className="bg-secondary text-white px-3 py-2 rounded">
+          Tallenna
+        </button>
+        {isCustom && (
+          <button onClick={handleReset} className="bg-red-600 text-white px-3 py-2 rounded">
+            {hasDefault ? 'Palauta oletus' : 'Poista taulukko'}
+          </button>
+        )}
+        <button onClick={() => fileInputRef.current?.click()} className="bg-blue-600 text-white px-3 py-2 rounded">
+          Tuo JSON
+        </button>
+        <button onClick={handleExport} className="bg-blue-600 text-white px-3 py-2 rounded">
+          Vie JSON
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+      {message && <div className="mt-4 p-2 bg-green-500 text-white rounded">{message}</div>}
+    </div>
+  );
+};
+
+export default RateTableEditor;
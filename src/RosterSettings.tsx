@@ -0,0 +1,176 @@
+// RosterSettings.tsx
+import React, { useState, useEffect } from 'react';
+import { Roster } from './roster';
+import { useRoster } from './useRoster';
+import { useContract } from './useContract';
+import { toDateKey } from './utils';
+
+const WEEKDAYS = ['Ma', 'Ti', 'Ke', 'To', 'Pe', 'La', 'Su'];
+
+const formatDate = (dateString: string): string => {
+  const [year, month, day] = dateString.split('-');
+  return `${day}.${month}.${year}`;
+};
+
+// Patterns always start on a Monday so the grid columns match weekdays.
+const toMonday = (dateString: string): string => {
+  const d = new Date(dateString + 'T00:00:00');
+  return toDateKey(new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7)));
+};
+
+const RosterSettings: React.FC = () => {
+  const [roster, saveRoster] = useRoster();
+  const [contract] = useContract();
+  const [pattern, setPattern] = useState<string[]>([]);
+  const [anchor, setAnchor] = useState(roster.anchor);
+  const [shiftDate, setShiftDate] = useState('');
+  const [shiftHours, setShiftHours] = useState('8');
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Sync the form once the stored roster has loaded. Contract-length days are empty.
+  useEffect(() => {
+    setPattern(roster.pattern.map((h) => (h === null ? '' : String(h))));
+    setAnchor(roster.anchor);
+  }, [roster]);
+
+  const weeks = Math.max(1, Math.ceil(pattern.length / 7));
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const handleWeeksChange = (newWeeks: number) => {
+    // New weeks start as copies of the first week.
+    setPattern((prev) =>
+      Array.from({ length: newWeeks * 7 }, (_, i) => prev[i] ?? prev[i % 7] ?? '0')
+    );
+  };
+
+  const handlePatternChange = (index: number, value: string) => {
+    setPattern((prev) => prev.map((h, i) => (i === index ? value : h)));
+  };
+
+  const handleSavePattern = () => {
+    const hours = pattern.map((h) => (h.trim() ? parseFloat(h.replace(',', '.')) : null));
+    if (hours.some((h) => h !== null && (isNaN(h) || h < 0 || h > 16))) {
+      alert('Lisää aika väliltä 0-16');
+      return;
+    }
+    saveRoster({ ...roster, anchor: toMonday(anchor), pattern: hours });
+    showMessage('Työvuorolista tallennettu');
+  };
+
+  const handleAddShift = () => {
+    const hours = parseFloat(shiftHours.replace(',', '.'));
+    if (!shiftDate || isNaN(hours) || hours < 0 || hours > 16) {
+      alert('Valitse päivä ja lisää aika väliltä 0-16');
+      return;
+    }
+    const updated: Roster = {
+      ...roster,
+      shifts: [...roster.shifts.filter((s) => s.date !== shiftDate), { date: shiftDate, hours }],
+    };
+    saveRoster(updated);
+    setShiftDate('');
+  };
+
+  const handleRemoveShift = (date: string) => {
+    saveRoster({ ...roster, shifts: roster.shifts.filter((s) => s.date !== date) });
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Työvuorolista</h3>
+      <div className="flex items-center space-x-2 mb-2">
+        <label className="text-sm">Kierron pituus:</label>
+        <select value={weeks} onChange={(e) => handleWeeksChange(parseInt(e.target.value, 10))} className="p-1 rounded text-black">
+          {[1, 2, 3, 4].map((w) => (
+            <option key={w} value={w}>
+              {w} vk
+            </option>
+          ))}
+        </select>
+      </div>
+      {weeks > 1 && (
+        <div className="flex items-center space-x-2 mb-2">
+          <label className="text-sm">Viikko 1 alkaa:</label>
+          <input type="date" value={anchor} onChange={(e) => setAnchor(e.target.value)} className="p-1 rounded text-black" />
+        </div>
+      )}
+      <table className="mb-2 text-sm">
+        <thead>
+          <tr>
+            {weeks > 1 && <th />}
+            {WEEKDAYS.map((day) => (
+              <th key={day} className="px-1">
+                {day}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {Array.from({ length: weeks }, (_, week) => (
+            <tr key={week}>
+              {weeks > 1 && <td className="pr-1">{week + 1}.</td>}
+              {WEEKDAYS.map((day, weekday) => (
+                <td key={day} className="px-1">
+                  <input
+                    type="number"
+                    value={pattern[week * 7 + weekday] ?? '0'}
+                    onChange={(e) => handlePatternChange(week * 7 + weekday, e.target.value)}
+                    placeholder={contract.shiftHours.toString()}
+                    className="w-10 p-1 rounded text-black"
+                    step="0.25"
+                    min="0"
+                    max="16"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-400 mb-2">
+        Suunnitellut tunnit päivittäin, 0 = vapaa. Tyhjä päivä on työpäivä työsopimuksen vuoron pituudella.
+      </p>
+      <button onClick={handleSavePattern} className="bg-secondary text-white px-3 py-2 rounded mb-4">
+        Tallenna
+      </button>
+      <h4 className="font-semibold mb-1">Yksittäiset vuorot</h4>
+      <ul className="mb-2 text-sm">
+        {[...roster.shifts]
+          .sort((a, b) => a.date.localeCompare(b.date))
+          .map((s) => (
+            <li key={s.date} className="flex justify-between items-center">
+              <span>
+                {formatDate(s.date)} {s.hours > 0 ? `${s.hours} h` : 'vapaa'}
+              </span>
+              <button onClick={() => handleRemoveShift(s.date)} className="text-red-400 px-2">
+                ✕
+              </button>
+            </li>
+          ))}
+      </ul>
+      <div className="flex flex-wrap gap-2">
+        <input type="date" value={shiftDate} onChange={(e) => setShiftDate(e.target.value)} className="p-1 rounded text-black" />
+        <input
+          type="number"
+          value={shiftHours}
+          onChange={(e) => setShiftHours(e.target.value)}
+          className="w-16 p-1 rounded text-black"
+          step="0.25"
+          min="0"
+          max="16"
+        />
+        <span className="self-center">h</span>
+        <button onClick={handleAddShift} className="bg-secondary text-white px-3 py-1 rounded">
+          Lisää
+        </button>
+      </div>
+      {message && <div className="mt-4 p-2 bg-green-500 text-white rounded">{message}</div>}
+    </div>
+  );
+};
+
+export default RosterSettings;
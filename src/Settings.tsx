@@ -0,0 +1,32 @@
+// Settings.tsx
+import React from 'react';
+import RateTableEditor from './RateTableEditor';
+import PeriodSettings from './PeriodSettings';
+import HolidaySettings from './HolidaySettings';
+import RosterSettings from './RosterSettings';
+import ContractSettings from './ContractSettings';
+import ShiftSettings from './ShiftSettings';
+import SupplementSettings from './SupplementSettings';
+import PaySettings from './PaySettings';
+import WorkCodeSettings from './WorkCodeSettings';
+import TaxSettings from './TaxSettings';
+
+const Settings: React.FC = () => {
+  return (
+    <div className="bg-primary min-h-screen text-gray-100 flex flex-col items-center p-4 space-y-6">
+      <h2 className="text-secondary text-2xl font-bold mb-2">Asetukset</h2>
+      <PeriodSettings />
+      <ContractSettings />
+      <ShiftSettings />
+      <RosterSettings />
+      <HolidaySettings />
+      <WorkCodeSettings />
+      <RateTableEditor />
+      <PaySettings />
+      <TaxSettings />
+      <SupplementSettings />
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,123 @@
+// ShiftSettings.tsx
+import React, { useState, useEffect } from 'react';
+import { useShiftDefinitions } from './useShiftDefinitions';
+import { useContract } from './useContract';
+
+interface ShiftRow {
+  id: string;
+  name: string;
+  start: string;
+  end: string;
+  plannedHours: string;
+}
+
+const ShiftSettings: React.FC = () => {
+  const [definitions, saveDefinitions] = useShiftDefinitions();
+  const [contract] = useContract();
+  const [rows, setRows] = useState<ShiftRow[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Sync the form once the stored definitions have loaded.
+  useEffect(() => {
+    setRows(definitions.map((d) => ({ ...d, plannedHours: d.plannedHours?.toString() ?? '' })));
+  }, [definitions]);
+
+  const handleChange = (index: number, field: keyof ShiftRow, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleAdd = () => {
+    setRows((prev) => [...prev, { id: Date.now().toString(), name: '', start: '', end: '', plannedHours: '' }]);
+  };
+
+  // Entries already saved under a removed shift keep its id.
+  const handleRemove = (index: number) => {
+    setRows((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    if (rows.length === 0) {
+      alert('Vähintään yksi vuoro tarvitaan.');
+      return;
+    }
+    if (rows.some((row) => !row.name.trim() || !row.start || !row.end)) {
+      alert('Anna jokaiselle vuorolle nimi, alku ja loppu.');
+      return;
+    }
+    // An empty length leaves the shift on the contract's length.
+    const hours = rows.map((row) => (row.plannedHours.trim() ? parseFloat(row.plannedHours.replace(',', '.')) : undefined));
+    if (hours.some((h) => h !== undefined && (isNaN(h) || h <= 0 || h > 16))) {
+      alert('Lisää aika väliltä 0-16');
+      return;
+    }
+    saveDefinitions(
+      rows.map((row, index) => ({
+        id: row.id,
+        name: row.name.trim(),
+        start: row.start,
+        end: row.end,
+        ...(hours[index] !== undefined && { plannedHours: hours[index] }),
+      }))
+    );
+    setMessage('Vuorot tallennettu');
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Vuorot</h3>
+      {rows.map((row, index) => (
+        <div key={row.id} className="flex flex-wrap items-center gap-1 mb-2">
+          <input
+            type="text"
+            value={row.name}
+            onChange={(e) => handleChange(index, 'name', e.target.value)}
+            placeholder="Nimi"
+            className="w-20 p-1 rounded text-black"
+          />
+          <input
+            type="time"
+            value={row.start}
+            onChange={(e) => handleChange(index, 'start', e.target.value)}
+            className="p-1 rounded text-black"
+          />
+          <span>–</span>
+          <input
+            type="time"
+            value={row.end}
+            onChange={(e) => handleChange(index, 'end', e.target.value)}
+            className="p-1 rounded text-black"
+          />
+          <input
+            type="number"
+            value={row.plannedHours}
+            onChange={(e) => handleChange(index, 'plannedHours', e.target.value)}
+            placeholder={contract.shiftHours.toString()}
+            className="w-16 p-1 rounded text-black"
+            step="0.25"
+            min="0"
+            max="16"
+          />
+          <span className="text-sm">h</span>
+          <button onClick={() => handleRemove(index)} className="text-red-400 px-2">
+            ✕
+          </button>
+        </div>
+      ))}
+      <p className="text-xs text-gray-400 mb-2">
+        Uuden suoritteen vuoro tunnistetaan kellonajasta, ja sen alku ja tunnit täytetään vuoron mukaan. Tyhjä tuntimäärä käyttää työsopimuksen vuoron pituutta.
+      </p>
+      <div className="flex gap-2">
+        <button onClick={handleAdd} className="bg-secondary text-white px-3 py-2 rounded">
+          Lisää
+        </button>
+        <button onClick={handleSave} className="bg-secondary text-white px-3 py-2 rounded">
+          Tallenna
+        </button>
+      </div>
+      {message && <div className="mt-4 p-2 bg-green-500 text-white rounded">{message}</div>}
+    </div>
+  );
+};
+
+export default ShiftSettings;
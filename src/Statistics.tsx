@@ -0,0 +1,133 @@
+// Statistics.tsx
+import React, { useMemo, useState } from 'react';
+import { useCalendarData } from './useCalendarData';
+import { usePeriodModel } from './usePeriodModel';
+import { useRateTables } from './useRateTables';
+import { useWorkCodes } from './useWorkCodes';
+import { getWorkCodeLabel, sortWorkCodes } from './workCodes';
+import { getDayEntries, toDayNumber } from './utils';
+import { ChartPoint, defaultStatsFilter, getDailySeries, getPeriodStats, linearTrend } from './stats';
+import LineChart, { LineSeries } from './LineChart';
+import BarChart from './BarChart';
+
+const SERIES_COLORS = ['#FF9C01', '#22d3ee', '#a78bfa', '#4ade80', '#f87171', '#facc15'];
+
+// Day numbers back to dates; they count days since 1.1.1970 in UTC.
+const formatDayNumber = (x: number): string => {
+  const d = new Date(x * 24 * 60 * 60 * 1000);
+  return `${d.getUTCDate()}.${d.getUTCMonth() + 1}.${d.getUTCFullYear() % 100}`;
+};
+
+const formatPercentage = (y: number): string => `${y.toFixed(0)}%`;
+
+/**
+ * Trends over several periods: daily and period percentages per work code,
+ * performance bonus and paid hours per period.
+ */
+const Statistics: React.FC = () => {
+  const { data, warehouse } = useCalendarData();
+  const [periodModel] = usePeriodModel();
+  const { tables: rateTables } = useRateTables();
+  const [workCodes] = useWorkCodes();
+  const [filter, setFilter] = useState(defaultStatsFilter);
+
+  // Codes with entries, including removed ones, in the user's order.
+  const availableCodes = useMemo(
+    () =>
+      sortWorkCodes(
+        Array.from(new Set(Object.values(data).flatMap((day) => getDayEntries(day).map((entry) => entry.code)))),
+        workCodes
+      ),
+    [data, workCodes]
+  );
+  const colorOf = (code: string) => SERIES_COLORS[Math.max(0, availableCodes.indexOf(code)) % SERIES_COLORS.length];
+  const seriesLabel = (code: string) => `${getWorkCodeLabel(workCodes, code)} (${code})`;
+
+  const dailySeries = useMemo(() => getDailySeries(data, filter, warehouse), [data, filter, warehouse]);
+  const periodStats = useMemo(
+    () => getPeriodStats(data, filter, periodModel, { warehouse, rateTables, workCodes }),
+    [data, filter, periodModel, warehouse, rateTables, workCodes]
+  );
+
+  const dailyLines: LineSeries[] = sortWorkCodes(Object.keys(dailySeries), workCodes).map((code) => ({
+    label: seriesLabel(code),
+    color: colorOf(code),
+    points: dailySeries[code],
+  }));
+  const periodLines: LineSeries[] = sortWorkCodes(
+    Array.from(new Set(periodStats.flatMap((stats) => Object.keys(stats.averages)))),
+    workCodes
+  ).flatMap((code) => {
+    const points: ChartPoint[] = periodStats
+      .filter((stats) => stats.averages[code] !== undefined)
+      .map((stats) => ({ x: toDayNumber(stats.period.start), y: stats.averages[code] }));
+    const trend = linearTrend(points);
+    return [
+      { label: seriesLabel(code), color: colorOf(code), points },
+      ...(trend.length > 0 ? [{ label: `${seriesLabel(code)} trendi`, color: colorOf(code), points: trend, dashed: true }] : []),
+    ];
+  });
+  const periodLabel = (start: Date) => `${start.getDate()}.${start.getMonth() + 1}.`;
+
+  const handleCodeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setFilter({ ...filter, codes: e.target.value ? [e.target.value] : [] });
+  };
+
+  return (
+    <div className="bg-primary min-h-screen text-gray-100 flex flex-col items-center p-4 space-y-6">
+      <h2 className="text-secondary text-2xl font-bold mb-2">Tilastot</h2>
+      <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={filter.from}
+            onChange={(e) => setFilter({ ...filter, from: e.target.value })}
+            className="p-1 rounded text-black"
+          />
+          <span>–</span>
+          <input
+            type="date"
+            value={filter.to}
+            onChange={(e) => setFilter({ ...filter, to: e.target.value })}
+            className="p-1 rounded text-black"
+          />
+          <select value={filter.codes[0] ?? ''} onChange={handleCodeChange} className="p-1 rounded text-black">
+            <option value="">Kaikki työkoodit</option>
+            {availableCodes.map((code) => (
+              <option key={code} value={code}>
+                {seriesLabel(code)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+        <h3 className="text-lg font-bold mb-2">Päivän suorite</h3>
+        <LineChart series={dailyLines} formatX={formatDayNumber} formatY={formatPercentage} referenceY={100} />
+      </div>
+      <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+        <h3 className="text-lg font-bold mb-2">Jakson keskisuorite</h3>
+        <LineChart series={periodLines} formatX={formatDayNumber} formatY={formatPercentage} referenceY={100} />
+      </div>
+      <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+        <h3 className="text-lg font-bold mb-2">Suoritepalkkio jaksoittain</h3>
+        <BarChart
+          bars={periodStats.map((stats) => ({ label: periodLabel(stats.period.start), value: stats.euros }))}
+          color="#4ade80"
+          formatValue={(value) => `${value.toFixed(0)} €`}
+        />
+      </div>
+      <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+        <h3 className="text-lg font-bold mb-2">Maksetut tunnit jaksoittain</h3>
+        <BarChart
+          bars={periodStats.map((stats) => ({ label: periodLabel(stats.period.start), value: stats.paidHours }))}
+          color="#22d3ee"
+          formatValue={(value) => `${value.toFixed(1)} h`}
+        />
+        <p className="text-xs text-gray-400 mt-2">Välille osuvat jaksot näytetään kokonaisina.</p>
+      </div>
+    </div>
+  );
+};
+
+export default Statistics;
@@ -0,0 +1,92 @@
+// SupplementSettings.tsx
+import React, { useState, useEffect } from 'react';
+import { SupplementConfig, SupplementWindow } from './supplements';
+import { useSupplementConfig } from './useSupplementConfig';
+
+interface WindowDraft {
+  start: string;
+  end: string;
+  euroPerHour: string;
+}
+
+const toDraft = (window: SupplementWindow): WindowDraft => ({
+  start: window.start,
+  end: window.end,
+  euroPerHour: window.euroPerHour.toString(),
+});
+
+const WINDOW_LABELS: { [key in keyof SupplementConfig]: string } = {
+  evening: 'Iltalisä',
+  night: 'Yölisä',
+};
+
+const SupplementSettings: React.FC = () => {
+  const [config, saveConfig] = useSupplementConfig();
+  const [drafts, setDrafts] = useState({ evening: toDraft(config.evening), night: toDraft(config.night) });
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Sync the form once the stored config has loaded.
+  useEffect(() => {
+    setDrafts({ evening: toDraft(config.evening), night: toDraft(config.night) });
+  }, [config]);
+
+  const handleChange = (key: keyof SupplementConfig, field: keyof WindowDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [key]: { ...prev[key], [field]: value } }));
+  };
+
+  const handleSave = () => {
+    const parseWindow = (draft: WindowDraft): SupplementWindow | null => {
+      const euroPerHour = parseFloat(draft.euroPerHour.replace(',', '.'));
+      if (!draft.start || !draft.end || isNaN(euroPerHour) || euroPerHour < 0) return null;
+      return { start: draft.start, end: draft.end, euroPerHour };
+    };
+    const evening = parseWindow(drafts.evening);
+    const night = parseWindow(drafts.night);
+    if (!evening || !night) {
+      alert('Tarkista lisien ajat ja summat.');
+      return;
+    }
+    saveConfig({ evening, night });
+    setMessage('Lisät tallennettu');
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Ilta- ja yölisät</h3>
+      {(Object.keys(WINDOW_LABELS) as (keyof SupplementConfig)[]).map((key) => (
+        <div key={key} className="flex flex-wrap items-center gap-2 mb-2">
+          <span className="w-16 text-sm">{WINDOW_LABELS[key]}</span>
+          <input
+            type="time"
+            value={drafts[key].start}
+            onChange={(e) => handleChange(key, 'start', e.target.value)}
+            className="p-1 rounded text-black"
+          />
+          <span>–</span>
+          <input
+            type="time"
+            value={drafts[key].end}
+            onChange={(e) => handleChange(key, 'end', e.target.value)}
+            className="p-1 rounded text-black"
+          />
+          <input
+            type="number"
+            value={drafts[key].euroPerHour}
+            onChange={(e) => handleChange(key, 'euroPerHour', e.target.value)}
+            className="w-20 p-1 rounded text-black"
+            step="0.01"
+            min="0"
+          />
+          <span className="text-sm">€/h</span>
+        </div>
+      ))}
+      <button onClick={handleSave} className="bg-secondary text-white px-3 py-2 rounded">
+        Tallenna
+      </button>
+      {message && <div className="mt-4 p-2 bg-green-500 text-white rounded">{message}</div>}
+    </div>
+  );
+};
+
+export default SupplementSettings;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { SupplementConfig, SupplementSummary } from './supplements';
+
+interface SupplementSummaryCardProps {
+  summary: SupplementSummary;
+  config: SupplementConfig;
+}
+
+const SupplementSummaryCard: React.FC<SupplementSummaryCardProps> = ({ summary, config }) => {
+  return (
+    <div className="p-6 bg-gradient-to-r from-indigo-700 to-indigo-500 text-white rounded-lg shadow-md hover:shadow-xl transform hover:scale-105 transition duration-300">
+      <h3 className="text-xl font-semibold mb-2">Vuorolisät</h3>
+      <p>
+        Iltalisä: {summary.eveningHours.toFixed(2)}h x {config.evening.euroPerHour} €/h = {summary.eveningEuros.toFixed(2)} €
+      </p>
+      <p>
+        Yölisä: {summary.nightHours.toFixed(2)}h x {config.night.euroPerHour} €/h = {summary.nightEuros.toFixed(2)} €
+      </p>
+      <p className="text-2xl font-bold mt-2">{summary.totalEuros.toFixed(2)} €</p>
+    </div>
+  );
+};
+
+export default SupplementSummaryCard;
@@ -1,48 +1,112 @@
 // Tavoite.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import DailyPerformance from './DailyPerformance';
 import DirectToGoal from './DirectToGoal';
 import RemainingWorkdays from './RemainingWorkdays';
+import TuntikorttiSummary from './TuntikorttiSummary';
+import SupplementSummaryCard from './SupplementSummaryCard';
+import PayEstimateCard from './PayEstimateCard';
+import NetPayCard from './NetPayCard';
+import WhatIfSimulator from './WhatIfSimulator';
+import EuroGoalPlanner from './EuroGoalPlanner';
+import GoalHistoryCard from './GoalHistoryCard';
+import ForecastCard from './ForecastCard';
 import localforage from 'localforage';
-import { DailyData, calculatePercentage, performanceToEuro, forkliftPerformanceToEuro } from './utils';
+import { DailyData, getDayEntries, toDateKey } from './utils';
+import { RateTable, findRateTable, getWarehouseLabel, rateToEuro } from './rateTables';
+import { Period, PeriodModel, getPreviousPeriod, isDateInPeriod } from './periods';
+import { HolidayException } from './holidays';
+import { Roster } from './roster';
+import { summarizeTuntikortti } from './tuntikortti';
+import { summarizeSupplements } from './supplements';
+import { useSupplementConfig } from './useSupplementConfig';
+import { PayContext, estimatePeriodGrossPay } from './pay';
+import { usePayConfig } from './usePayConfig';
+import { estimateNetPay, getYearToDateIncome } from './tax';
+import { useTaxSettings } from './useTaxSettings';
+import { useContract } from './useContract';
 import { usePerformanceCalculations } from './usePerformanceCalculations';
+import {
+  DEFAULT_WORK_CODE,
+  WorkCode,
+  WorkCodeGoals,
+  WorkGroup,
+  getWorkCodeLabel,
+  getWorkGroups,
+  workGroupKey,
+} from './workCodes';
+import { DEFAULT_GOAL, PeriodGoals, getGoalHistory, getGoalsForPeriod, setPeriodGoal } from './goals';
+import { PeriodForecast, forecastPeriod } from './forecast';
 import { FaWarehouse } from 'react-icons/fa';
 
 interface TavoiteProps {
   data: { [key: string]: DailyData };
-  period: string;
-  selectedDate: Date;
+  period: Period;
+  periodModel: PeriodModel;
   warehouse: string;
+  rateTables: RateTable[];
+  workCodes: WorkCode[];
+  holidayExceptions: HolidayException[];
+  roster: Roster;
+  periodGoals: PeriodGoals;
+  onSavePeriodGoals: (periodGoals: PeriodGoals) => void;
 }
 
-const Tavoite: React.FC<TavoiteProps> = ({ data, period, selectedDate, warehouse }) => {
-  const [goal, setGoal] = useState(100);
-  const [savedGoal, setSavedGoal] = useState<number | null>(null);
+// Card colours cycle through this list, one per active work code.
+const CODE_CARD_COLORS = [
+  'from-pink-600 to-pink-400',
+  'from-purple-600 to-purple-400',
+  'from-blue-600 to-blue-400',
+  'from-orange-600 to-orange-400',
+];
+
+const Tavoite: React.FC<TavoiteProps> = ({
+  data,
+  period,
+  periodModel,
+  warehouse,
+  rateTables,
+  workCodes,
+  holidayExceptions,
+  roster,
+  periodGoals,
+  onSavePeriodGoals,
+}) => {
+  const [goal, setGoal] = useState(DEFAULT_GOAL);
+  const [goalCode, setGoalCode] = useState(DEFAULT_WORK_CODE);
   const [message, setMessage] = useState<string | null>(null);
+  const [supplementConfig] = useSupplementConfig();
+  const [payConfig] = usePayConfig();
+  const [taxSettings] = useTaxSettings();
+  const [contract] = useContract();
 
   const todayWithoutTime = new Date();
   todayWithoutTime.setHours(0, 0, 0, 0);
-  const selectedDateWithoutTime = new Date(selectedDate);
-  selectedDateWithoutTime.setHours(0, 0, 0, 0);
-  const isPastPeriod = selectedDateWithoutTime < todayWithoutTime;
+  // The period is complete once its last day is over.
+  const isPastPeriod = period.end < todayWithoutTime;
+
+  // Goals in force in the viewed period, inherited from earlier periods where not set.
+  const goals: WorkCodeGoals = useMemo(() => getGoalsForPeriod(periodGoals, period), [periodGoals, period]);
 
-  // Load saved goal.
+  // Show the selected code's goal on the slider.
   useEffect(() => {
-    const storedGoal = localStorage.getItem('savedGoal');
-    if (storedGoal) {
-      const parsedGoal = parseFloat(storedGoal);
-      setSavedGoal(parsedGoal);
-      setGoal(parsedGoal);
-    }
-  }, []);
+    setGoal(goals[goalCode] ?? DEFAULT_GOAL);
+  }, [goals, goalCode]);
 
   const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setGoal(parseFloat(e.target.value));
   };
 
   const handleSaveGoal = () => {
-    localStorage.setItem('savedGoal', goal.toString());
-    setSavedGoal(goal);
+    onSavePeriodGoals(setPeriodGoal(periodGoals, period, goalCode, goal));
+    setMessage('Tavoite tallennettu');
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  // The euro planner saves its required percentage directly as the code's goal.
+  const handleApplyEuroGoal = (code: string, percentage: number) => {
+    onSavePeriodGoals(setPeriodGoal(periodGoals, period, code, percentage));
+    setGoalCode(code);
     setMessage('Tavoite tallennettu');
     setTimeout(() => setMessage(null), 3000);
   };
@@ -52,64 +116,109 @@ const Tavoite: React.FC<TavoiteProps> = ({ data, period, selectedDate, warehouse
     return `${day}.${month}.${year}`;
   };
 
-  const filterDates = (d: Date): boolean => {
-    const day = d.getDate();
-    return period === 'Jakso 1' ? day >= 1 && day <= 15 : day >= 16;
-  };
+  const periodDateStrings = Object.keys(data).filter((dateString) =>
+    isDateInPeriod(new Date(dateString + "T00:00:00"), period)
+  );
+  const periodEntries = periodDateStrings.flatMap((dateString) => getDayEntries(data[dateString]));
+  // Warehouse and work code combinations with entries in the period. The key
+  // keeps the list stable between renders for the calculations below.
+  const activeGroupsKey = JSON.stringify(getWorkGroups(periodEntries, warehouse, workCodes));
+  const activeGroups = useMemo(() => JSON.parse(activeGroupsKey) as WorkGroup[], [activeGroupsKey]);
+  // Without entries yet, the simulator and euro planner work on the default code.
+  const selectableGroups = useMemo(
+    () => (activeGroups.length > 0 ? activeGroups : [{ warehouse, code: DEFAULT_WORK_CODE }]),
+    [activeGroups, warehouse]
+  );
+  const severalWarehouses = activeGroups.some((group) => group.warehouse !== activeGroups[0].warehouse);
+  const tuntikorttiTotals = summarizeTuntikortti(periodEntries);
+  const supplementSummary = summarizeSupplements(periodEntries, supplementConfig);
 
   // Use the custom hook to get calculated values.
   const {
-    remainingDataNormal,
-    remainingDataForklift,
+    remainingByGroup,
     sharedMissingDays,
-    overallAverage,
-    overallAveragePercentage,
-  } = usePerformanceCalculations(data, period, selectedDate, savedGoal);
-
-  // Determine if the period is complete.
-  const now = new Date();
-  const currentDay = now.getDate();
-  let periodCompleted = false;
-  if (period === 'Jakso 1' && currentDay > 15) {
-    periodCompleted = true;
-  } else if (period === 'Jakso 2') {
-    const lastDayOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
-    if (currentDay === lastDayOfMonth) {
-      periodCompleted = true;
-    }
-  }
-
-  // Compute helper flags to determine if any normal or forklift data exists.
-  const hasNormalData = Object.keys(data).some((dateString) => {
-    const dObj = new Date(dateString + "T00:00:00");
-    if (dObj.getFullYear() === selectedDate.getFullYear() && dObj.getMonth() === selectedDate.getMonth()) {
-      const d = dObj.getDate();
-      return period === 'Jakso 1'
-        ? (d >= 1 && d <= 15 && data[dateString].normal !== undefined)
-        : (d >= 16 && data[dateString].normal !== undefined);
-    }
-    return false;
-  });
-
-  const hasForkliftData = Object.keys(data).some((dateString) => {
-    const dObj = new Date(dateString + "T00:00:00");
-    if (dObj.getFullYear() === selectedDate.getFullYear() && dObj.getMonth() === selectedDate.getMonth()) {
-      const d = dObj.getDate();
-      return period === 'Jakso 1'
-        ? (d >= 1 && d <= 15 && data[dateString].forklift !== undefined)
-        : (d >= 16 && data[dateString].forklift !== undefined);
-    }
-    return false;
-  });
-
-  const selectedDateString = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
-  const selectedDayData = data[selectedDateString] || {};
+    sharedPlannedHours,
+  } = usePerformanceCalculations(
+    data,
+    period,
+    activeGroups,
+    goals,
+    warehouse,
+    holidayExceptions,
+    roster,
+    contract
+  );
+
+  // Forecasts from the user's own daily history; none for completed periods.
+  const forecasts: { [key: string]: PeriodForecast | null } = useMemo(
+    () =>
+      isPastPeriod
+        ? {}
+        : Object.fromEntries(
+            activeGroups.map((group) => [
+              workGroupKey(group),
+              forecastPeriod(
+                data,
+                period,
+                group,
+                goals[group.code] ?? DEFAULT_GOAL,
+                warehouse,
+                holidayExceptions,
+                roster,
+                contract
+              ),
+            ])
+          ),
+    [isPastPeriod, activeGroups, data, period, goals, warehouse, holidayExceptions, roster, contract]
+  );
+
+  // Use the tables that were in force when the viewed period started.
+  const periodStartKey = toDateKey(period.start);
+  const groupRate = (group: WorkGroup): number =>
+    rateToEuro(
+      Number(remainingByGroup[workGroupKey(group)]?.currentAveragePercentage ?? 0),
+      findRateTable(rateTables, group.warehouse, group.code, periodStartKey)
+    );
+
+  const payContext: PayContext = useMemo(
+    () => ({ warehouse, rateTables, workCodes, payConfig, supplementConfig }),
+    [warehouse, rateTables, workCodes, payConfig, supplementConfig]
+  );
+  const payEstimate = estimatePeriodGrossPay(data, period, payContext);
+  // Income of the earlier periods this year decides when the income limit is reached.
+  const yearToDateIncome = useMemo(
+    () => getYearToDateIncome(data, period, periodModel, payContext),
+    [data, period, periodModel, payContext]
+  );
+  const netPayEstimate = estimateNetPay(payEstimate.total, yearToDateIncome, taxSettings);
+  // Completed periods up to the viewed one, each judged against its own goals.
+  const goalHistory = useMemo(
+    () =>
+      getGoalHistory(
+        data,
+        isPastPeriod ? period : getPreviousPeriod(period, periodModel),
+        periodModel,
+        periodGoals,
+        warehouse,
+        workCodes
+      ),
+    [data, isPastPeriod, period, periodModel, periodGoals, warehouse, workCodes]
+  );
+  const historyWarehouses = new Set(goalHistory.flatMap((h) => h.results.map((r) => r.warehouse)));
 
   return (
     <div className="flex flex-col items-center p-4">
-      <div className="mt-4">
+      <div className="mt-4 text-center">
+        <p className="text-sm">{period.label}</p>
         <p className="text-lg font-bold">Tavoite: {goal}%</p>
       </div>
+      <select value={goalCode} onChange={(e) => setGoalCode(e.target.value)} className="p-2 mb-2 rounded text-black">
+        {workCodes.map((c) => (
+          <option key={c.code} value={c.code}>
+            {c.code} {c.label}
+          </option>
+        ))}
+      </select>
       <input
         type="range"
         min="100"
@@ -128,65 +237,123 @@ const Tavoite: React.FC<TavoiteProps> = ({ data, period, selectedDate, warehouse
         </div>
       )}
 
-      <div className="mt-4 grid grid-cols-1 gap-4">{!isPastPeriod && <RemainingWorkdays days={sharedMissingDays} />}</div>
-
-      {savedGoal !== null && remainingDataNormal && hasNormalData && (
-        <div className="mt-4 grid grid-cols-1 gap-4">
-          <h1 className="text-xl font-semibold mb-2">Keräys</h1>
-          <div className="p-6 bg-gradient-to-r from-pink-600 to-pink-400 text-white rounded-lg shadow-md hover:shadow-xl transform hover:scale-105 transition duration-300">
-            <h3 className="text-xl font-semibold mb-2">Jakson keskisuorite</h3>
-            <p className="text-2xl font-bold">{remainingDataNormal.currentAveragePercentage}%</p>
-            <h3 className="text-xl font-semibold mt-4">Maksetut työtunnit</h3>
-            <p className="text-2xl font-bold">{remainingDataNormal.totalInputHours} h</p>
-            <h3 className="text-xl font-semibold mt-4">Maksettu suoritteesta</h3>
-            <p className="text-xl font-bold">
-            {remainingDataNormal.totalInputHours}h x {performanceToEuro(Number(remainingDataNormal.currentAveragePercentage), warehouse)} €/h = {(Number(remainingDataNormal.totalInputHours) * performanceToEuro(Number(remainingDataNormal.currentAveragePercentage), warehouse)).toFixed(2)} €
-            </p>
+      {!isPastPeriod && (
+        <div className="mt-4 w-full max-w-md">
+          <EuroGoalPlanner
+            data={data}
+            period={period}
+            groups={selectableGroups}
+            goals={goals}
+            warehouse={warehouse}
+            rateTables={rateTables}
+            workCodes={workCodes}
+            holidayExceptions={holidayExceptions}
+            roster={roster}
+            contract={contract}
+            onApply={handleApplyEuroGoal}
+          />
+        </div>
+      )}
+
+      <div className="mt-4 grid grid-cols-1 gap-4">{!isPastPeriod && <RemainingWorkdays days={sharedMissingDays} hours={sharedPlannedHours} />}</div>
+
+      {activeGroups.map((group, index) => {
+        const remaining = remainingByGroup[workGroupKey(group)];
+        if (!remaining) return null;
+        const rate = groupRate(group);
+        return (
+          <div key={workGroupKey(group)} className={`${index === 0 ? 'mt-4' : 'mt-8'} grid grid-cols-1 gap-4`}>
+            <h1 className="text-xl font-semibold mb-2">
+              {getWorkCodeLabel(workCodes, group.code)} ({group.code})
+              {severalWarehouses && `, ${getWarehouseLabel(group.warehouse)}`}
+            </h1>
+            <div
+              className={`p-6 bg-gradient-to-r ${CODE_CARD_COLORS[index % CODE_CARD_COLORS.length]} text-white rounded-lg shadow-md hover:shadow-xl transform hover:scale-105 transition duration-300`}
+            >
+              <h3 className="text-xl font-semibold mb-2">Jakson keskisuorite</h3>
+              <p className="text-2xl font-bold">{remaining.currentAveragePercentage}%</p>
+              <p className="text-sm">
+                {remaining.average.performance.toFixed(2)} / {remaining.average.effectiveHours.toFixed(2)} teh. h (
+                {remaining.average.entries} kirjausta, {remaining.average.days} pv)
+              </p>
+              {isPastPeriod && (
+                <p className="text-sm">
+                  Tavoite {goals[group.code] ?? DEFAULT_GOAL}%:{' '}
+                  {Number(remaining.currentAveragePercentage) >= (goals[group.code] ?? DEFAULT_GOAL)
+                    ? 'saavutettu'
+                    : 'ei saavutettu'}
+                </p>
+              )}
+              <h3 className="text-xl font-semibold mt-4">Maksetut työtunnit</h3>
+              <p className="text-2xl font-bold">{remaining.totalInputHours} h</p>
+              <h3 className="text-xl font-semibold mt-4">Maksettu suoritteesta</h3>
+              <p className="text-xl font-bold">
+                {remaining.totalInputHours}h x {rate} €/h = {(Number(remaining.totalInputHours) * rate).toFixed(2)} €
+              </p>
+            </div>
+            {!isPastPeriod && (
+              <>
+                <DailyPerformance
+                  value={remaining.dailyRequiredAbsolute}
+                  percentage={parseInt(remaining.dailyRequiredPercentage)}
+                  label="Päivittäinen suorite"
+                />
+                <DirectToGoal
+                  value={remaining.instantlyToGoalAbsolute}
+                  percentage={parseInt(remaining.instantlyToGoalPercentage)}
+                  label="Suoraan tavoitteeseen"
+                />
+                {forecasts[workGroupKey(group)] && (
+                  <ForecastCard
+                    forecast={forecasts[workGroupKey(group)] as PeriodForecast}
+                    goal={goals[group.code] ?? DEFAULT_GOAL}
+                  />
+                )}
+              </>
+            )}
           </div>
-          {!periodCompleted && (
-            <>
-              <DailyPerformance
-                value={remainingDataNormal.dailyRequiredAbsolute}
-                percentage={parseInt(remainingDataNormal.dailyRequiredPercentage)}
-                label="Päivittäinen suorite"
-              />
-              <DirectToGoal
-                value={remainingDataNormal.instantlyToGoalAbsolute}
-                percentage={parseInt(remainingDataNormal.instantlyToGoalPercentage)}
-                label="Suoraan tavoitteeseen"
-              />
-            </>
-          )}
+        );
+      })}
+
+      {!isPastPeriod && (
+        <div className="mt-8 w-full max-w-md">
+          <WhatIfSimulator
+            data={data}
+            period={period}
+            groups={selectableGroups}
+            goals={goals}
+            warehouse={warehouse}
+            rateTables={rateTables}
+            workCodes={workCodes}
+            holidayExceptions={holidayExceptions}
+            roster={roster}
+            contract={contract}
+          />
         </div>
       )}
 
-      {savedGoal !== null && remainingDataForklift && hasForkliftData && (
+      {supplementSummary.eveningHours + supplementSummary.nightHours > 0 && (
         <div className="mt-8 grid grid-cols-1 gap-4">
-          <h1 className="text-xl font-semibold mb-2">Trukki</h1>
-          <div className="p-6 bg-gradient-to-r from-purple-600 to-purple-400 text-white rounded-lg shadow-md hover:shadow-xl transform hover:scale-105 transition duration-300">
-            <h3 className="text-xl font-semibold mb-2">Jakson keskisuorite</h3>
-            <p className="text-2xl font-bold">{remainingDataForklift.currentAveragePercentage}%</p>
-            <h3 className="text-xl font-semibold mt-4">Maksetut työtunnit</h3>
-            <p className="text-2xl font-bold">{remainingDataForklift.totalInputHours} h</p>
-            <h3 className="text-xl font-semibold mt-4">Maksettu suoritteesta</h3>
-            <p className="text-xl font-bold">
-              {remainingDataForklift.totalInputHours}h x {forkliftPerformanceToEuro(Number(remainingDataForklift.currentAveragePercentage), warehouse)} €/h = {(Number(remainingDataForklift.totalInputHours) * forkliftPerformanceToEuro(Number(remainingDataForklift.currentAveragePercentage), warehouse)).toFixed(2)} €
-            </p>
-          </div>
-          {!periodCompleted && (
-            <>
-              <DailyPerformance
-                value={remainingDataForklift.dailyRequiredAbsolute}
-                percentage={parseInt(remainingDataForklift.dailyRequiredPercentage)}
-                label="Päivittäinen suorite"
-              />
-              <DirectToGoal
-                value={remainingDataForklift.instantlyToGoalAbsolute}
-                percentage={parseInt(remainingDataForklift.instantlyToGoalPercentage)}
-                label="Suoraan tavoitteeseen"
-              />
-            </>
-          )}
+          <SupplementSummaryCard summary={supplementSummary} config={supplementConfig} />
+        </div>
+      )}
+
+      {periodEntries.length > 0 && (
+        <div className="mt-8 grid grid-cols-1 gap-4">
+          <PayEstimateCard estimate={payEstimate} />
+          <NetPayCard estimate={netPayEstimate} settings={taxSettings} />
+        </div>
+      )}
+
+      {goalHistory.length > 0 && (
+        <div className="mt-8 grid grid-cols-1 gap-4">
+          <GoalHistoryCard history={goalHistory} workCodes={workCodes} showWarehouse={historyWarehouses.size > 1} />
+        </div>
+      )}
+
+      {tuntikorttiTotals.length > 0 && (
+        <div className="mt-8 grid grid-cols-1 gap-4">
+          <TuntikorttiSummary totals={tuntikorttiTotals} />
         </div>
       )}
     </div>
@@ -0,0 +1,73 @@
+// TaxSettings.tsx
+import React, { useState, useEffect } from 'react';
+import { TaxSettings as TaxSettingsValues } from './tax';
+import { useTaxSettings } from './useTaxSettings';
+
+type FieldKey = keyof TaxSettingsValues;
+
+const FIELDS: { key: FieldKey; label: string; unit: string }[] = [
+  { key: 'basePercentage', label: 'Perusprosentti', unit: '%' },
+  { key: 'additionalPercentage', label: 'Lisäprosentti', unit: '%' },
+  { key: 'incomeLimit', label: 'Tuloraja', unit: '€/v' },
+  { key: 'pensionPercentage', label: 'TyEL-maksu', unit: '%' },
+  { key: 'unemploymentPercentage', label: 'Työttömyysvakuutus', unit: '%' },
+];
+
+const toDraft = (settings: TaxSettingsValues) =>
+  Object.fromEntries(FIELDS.map(({ key }) => [key, settings[key].toString()])) as { [key in FieldKey]: string };
+
+const TaxSettings: React.FC = () => {
+  const [settings, saveSettings] = useTaxSettings();
+  const [draft, setDraft] = useState(toDraft(settings));
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Sync the form once the stored settings have loaded.
+  useEffect(() => {
+    setDraft(toDraft(settings));
+  }, [settings]);
+
+  const handleSave = () => {
+    const parse = (key: FieldKey) => parseFloat(draft[key].replace(',', '.'));
+    const values: TaxSettingsValues = {
+      basePercentage: parse('basePercentage'),
+      additionalPercentage: parse('additionalPercentage'),
+      incomeLimit: parse('incomeLimit'),
+      pensionPercentage: parse('pensionPercentage'),
+      unemploymentPercentage: parse('unemploymentPercentage'),
+    };
+    if (FIELDS.some(({ key }) => isNaN(values[key]) || values[key] < 0)) {
+      alert('Tarkista verokortin tiedot.');
+      return;
+    }
+    saveSettings(values);
+    setMessage('Verotiedot tallennettu');
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Verokortti</h3>
+      {FIELDS.map(({ key, label, unit }) => (
+        <div key={key} className="flex items-center space-x-2 mb-2">
+          <label className="w-48 text-sm">{label}:</label>
+          <input
+            type="number"
+            value={draft[key]}
+            onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+            className="w-28 p-1 rounded text-black"
+            step="0.01"
+            min="0"
+          />
+          <span className="text-sm">{unit}</span>
+        </div>
+      ))}
+      <p className="text-xs text-gray-400 mb-2">Tuloraja seurataan kalenterivuoden kirjausten perusteella.</p>
+      <button onClick={handleSave} className="bg-secondary text-white px-3 py-2 rounded">
+        Tallenna
+      </button>
+      {message && <div className="mt-4 p-2 bg-green-500 text-white rounded">{message}</div>}
+    </div>
+  );
+};
+
+export default TaxSettings;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { TuntikorttiReason, TUNTIKORTTI_REASON_LABELS, formatMinutes } from './tuntikortti';
+
+interface TuntikorttiSummaryProps {
+  totals: { reason: TuntikorttiReason; minutes: number }[];
+}
+
+const TuntikorttiSummary: React.FC<TuntikorttiSummaryProps> = ({ totals }) => {
+  const totalMinutes = totals.reduce((sum, t) => sum + t.minutes, 0);
+  return (
+    <div className="p-6 bg-gradient-to-r from-gray-700 to-gray-500 text-white rounded-lg shadow-md hover:shadow-xl transform hover:scale-105 transition duration-300">
+      <h3 className="text-xl font-semibold mb-2">Tuntikortti jaksolla</h3>
+      {totals.map((t) => (
+        <p key={t.reason} className="flex justify-between">
+          <span>{TUNTIKORTTI_REASON_LABELS[t.reason]}</span>
+          <span>{formatMinutes(t.minutes)}</span>
+        </p>
+      ))}
+      <p className="text-2xl font-bold mt-2">{formatMinutes(totalMinutes)}</p>
+    </div>
+  );
+};
+
+export default TuntikorttiSummary;
@@ -0,0 +1,197 @@
+// WhatIfSimulator.tsx
+import React, { useMemo, useState } from 'react';
+import { DailyData, WorkEntry, entryEffectiveHours, toDateKey } from './utils';
+import { getHourRules } from './hourRules';
+import { Period } from './periods';
+import { HolidayException } from './holidays';
+import { Roster } from './roster';
+import { ContractSettings, contractShiftFlags } from './contract';
+import { RateTable, findRateTable, getWarehouseLabel, rateToEuro } from './rateTables';
+import { WorkCode, WorkCodeGoals, WorkGroup, getWorkCodeLabel, workGroupKey } from './workCodes';
+import { getRemainingPlannedShifts, usePerformanceCalculations } from './usePerformanceCalculations';
+import { DEFAULT_GOAL } from './goals';
+
+interface WhatIfSimulatorProps {
+  data: { [key: string]: DailyData };
+  period: Period;
+  // Groups to choose from; the first one is selected initially.
+  groups: WorkGroup[];
+  goals: WorkCodeGoals;
+  warehouse: string;
+  rateTables: RateTable[];
+  workCodes: WorkCode[];
+  holidayExceptions: HolidayException[];
+  roster: Roster;
+  contract: ContractSettings;
+}
+
+interface DayInput {
+  percentage: string;
+  hours: string;
+}
+
+const formatDay = (dateString: string): string =>
+  new Date(dateString + 'T00:00:00').toLocaleDateString('fi-FI', { weekday: 'short', day: 'numeric', month: 'numeric' });
+
+/**
+ * Projects the period outcome from hypothetical percentages on the remaining
+ * roster days. The simulated entries only exist in this component's state.
+ */
+const WhatIfSimulator: React.FC<WhatIfSimulatorProps> = ({
+  data,
+  period,
+  groups,
+  goals,
+  warehouse,
+  rateTables,
+  workCodes,
+  holidayExceptions,
+  roster,
+  contract,
+}) => {
+  const [groupKey, setGroupKey] = useState('');
+  const [inputs, setInputs] = useState<{ [date: string]: DayInput }>({});
+
+  const group = groups.find((g) => workGroupKey(g) === groupKey) ?? groups[0];
+  const selectedGroups = useMemo(() => [group], [group]);
+  // A code without a saved goal is measured against 100 %, as on the slider.
+  const goal = goals[group.code] ?? DEFAULT_GOAL;
+  const simulationGoals = useMemo(() => ({ ...goals, [group.code]: goal }), [goals, group.code, goal]);
+
+  const remainingShifts = useMemo(
+    () => getRemainingPlannedShifts(data, period, roster, holidayExceptions, contract),
+    [data, period, roster, holidayExceptions, contract]
+  );
+
+  // The saved data plus one entry per filled-in day.
+  const simulatedData = useMemo(() => {
+    const rules = getHourRules(group.warehouse);
+    const result = { ...data };
+    remainingShifts.forEach((shift) => {
+      const input = inputs[shift.date];
+      const percentage = parseFloat((input?.percentage ?? '').replace(',', '.'));
+      const hours = parseFloat((input?.hours ?? String(shift.hours)).replace(',', '.'));
+      if (isNaN(percentage) || isNaN(hours) || hours <= 0 || hours > 16) return;
+      const entry: WorkEntry = {
+        id: 1,
+        code: group.code,
+        warehouse: group.warehouse,
+        performance: 0,
+        hours,
+        ...contractShiftFlags(contract),
+      };
+      entry.performance = (percentage / 100) * entryEffectiveHours(entry, rules);
+      result[shift.date] = { ...data[shift.date], entries: [entry] };
+    });
+    return result;
+  }, [data, remainingShifts, inputs, group, contract]);
+
+  const { remainingByGroup } = usePerformanceCalculations(
+    simulatedData,
+    period,
+    selectedGroups,
+    simulationGoals,
+    warehouse,
+    holidayExceptions,
+    roster,
+    contract
+  );
+  const projection = remainingByGroup[workGroupKey(group)];
+  if (!projection || remainingShifts.length === 0) return null;
+
+  const average = Number(projection.currentAveragePercentage);
+  const rate = rateToEuro(
+    average,
+    findRateTable(rateTables, group.warehouse, group.code, toDateKey(period.start))
+  );
+  const paidEuros = Number(projection.totalInputHours) * rate;
+
+  const handleInputChange = (date: string, field: keyof DayInput, value: string) => {
+    setInputs((prev) => {
+      const shift = remainingShifts.find((s) => s.date === date);
+      const current = prev[date] ?? { percentage: '', hours: String(shift?.hours ?? '') };
+      return { ...prev, [date]: { ...current, [field]: value } };
+    });
+  };
+
+  let goalStatus: string;
+  if (average >= goal) {
+    goalStatus = `Tavoite ${goal}% saavutetaan`;
+  } else if (projection.missingDays > 0) {
+    goalStatus = `Tavoitteeseen ${goal}% tarvitaan muina päivinä ${projection.dailyRequiredPercentage}%`;
+  } else {
+    goalStatus = `Tavoitteesta ${goal}% jää ${goal - average} %-yksikköä`;
+  }
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Entä jos?</h3>
+      {groups.length > 1 && (
+        <select
+          value={workGroupKey(group)}
+          onChange={(e) => setGroupKey(e.target.value)}
+          className="p-1 mb-2 rounded text-black"
+        >
+          {groups.map((g) => (
+            <option key={workGroupKey(g)} value={workGroupKey(g)}>
+              {getWorkCodeLabel(workCodes, g.code)} ({g.code}), {getWarehouseLabel(g.warehouse)}
+            </option>
+          ))}
+        </select>
+      )}
+      <table className="mb-2 text-sm">
+        <thead>
+          <tr>
+            <th className="text-left pr-2">Päivä</th>
+            <th className="px-1">%</th>
+            <th className="px-1">h</th>
+          </tr>
+        </thead>
+        <tbody>
+          {remainingShifts.map((shift) => (
+            <tr key={shift.date}>
+              <td className="pr-2">{formatDay(shift.date)}</td>
+              <td className="px-1">
+                <input
+                  type="number"
+                  value={inputs[shift.date]?.percentage ?? ''}
+                  onChange={(e) => handleInputChange(shift.date, 'percentage', e.target.value)}
+                  className="w-16 p-1 rounded text-black"
+                  step="1"
+                  min="0"
+                />
+              </td>
+              <td className="px-1">
+                <input
+                  type="number"
+                  value={inputs[shift.date]?.hours ?? String(shift.hours)}
+                  onChange={(e) => handleInputChange(shift.date, 'hours', e.target.value)}
+                  className="w-16 p-1 rounded text-black"
+                  step="0.25"
+                  min="0"
+                  max="16"
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-400 mb-2">Tyhjäksi jätetyt päivät eivät ole mukana. Tietoja ei tallenneta.</p>
+      <p>
+        Jakson keskisuorite: <span className="font-bold">{projection.currentAveragePercentage}%</span>
+      </p>
+      <p>
+        Maksettu suoritteesta:{' '}
+        <span className="font-bold">
+          {projection.totalInputHours}h x {rate} €/h = {paidEuros.toFixed(2)} €
+        </span>
+      </p>
+      <p className={average >= goal ? 'text-green-400' : 'text-yellow-400'}>{goalStatus}</p>
+      <button onClick={() => setInputs({})} className="bg-secondary text-white px-3 py-1 rounded mt-2">
+        Tyhjennä
+      </button>
+    </div>
+  );
+};
+
+export default WhatIfSimulator;
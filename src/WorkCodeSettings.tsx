@@ -0,0 +1,73 @@
+// WorkCodeSettings.tsx
+import React, { useState } from 'react';
+import { useWorkCodes } from './useWorkCodes';
+
+const WorkCodeSettings: React.FC = () => {
+  const [workCodes, saveWorkCodes] = useWorkCodes();
+  const [code, setCode] = useState('');
+  const [label, setLabel] = useState('');
+
+  const handleAdd = () => {
+    const trimmedCode = code.trim();
+    if (!trimmedCode || !label.trim()) {
+      alert('Anna työkoodi ja nimi.');
+      return;
+    }
+    if (workCodes.some((c) => c.code === trimmedCode)) {
+      alert('Työkoodi on jo listalla.');
+      return;
+    }
+    saveWorkCodes([...workCodes, { code: trimmedCode, label: label.trim() }]);
+    setCode('');
+    setLabel('');
+  };
+
+  // Entries already saved under a removed code are kept and still counted.
+  const handleRemove = (removed: string) => {
+    if (workCodes.length === 1) {
+      alert('Vähintään yksi työkoodi tarvitaan.');
+      return;
+    }
+    saveWorkCodes(workCodes.filter((c) => c.code !== removed));
+  };
+
+  return (
+    <div className="w-full max-w-md p-4 bg-gray-800 rounded shadow-lg">
+      <h3 className="text-lg font-bold mb-2">Työkoodit</h3>
+      <ul className="mb-2 text-sm">
+        {workCodes.map((c) => (
+          <li key={c.code} className="flex justify-between items-center">
+            <span>
+              {c.code} {c.label}
+            </span>
+            <button onClick={() => handleRemove(c.code)} className="text-red-400 px-2">
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Koodi"
+          className="w-20 p-1 rounded text-black"
+        />
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Nimi"
+          className="flex-1 p-1 rounded text-black"
+        />
+        <button onClick={handleAdd} className="bg-secondary text-white px-3 py-1 rounded">
+          Lisää
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mt-2">Jokaisella koodilla on oma taulukko, tavoite ja keskiarvo.</p>
+    </div>
+  );
+};
+
+export default WorkCodeSettings;
@@ -0,0 +1,108 @@
+// annualReport.test.ts
+import { describe, expect, it } from 'vitest';
+import { DailyData, WorkEntry } from './utils';
+import { AnnualReport, ReportRow, annualReportToCsv, getAnnualReport } from './annualReport';
+import { RateTable } from './rateTables';
+import { WorkCode } from './workCodes';
+
+const entry = (id: number, hours: number, performance: number, flags: Partial<WorkEntry> = {}): WorkEntry => ({
+  id,
+  code: '0591',
+  warehouse: 'pakaste',
+  performance,
+  hours,
+  overtime: false,
+  freeDay: false,
+  ...flags,
+});
+
+const row = (values: Partial<ReportRow> = {}): ReportRow => ({
+  workedHours: 0,
+  paidHours: 0,
+  overtimeHours: 0,
+  tuntikorttiHours: 0,
+  averages: {},
+  bonusEuros: 0,
+  ...values,
+});
+
+describe('getAnnualReport', () => {
+  const rateTables: RateTable[] = [
+    { warehouse: 'pakaste', code: '0591', validFrom: '2000-01-01', rates: { '100': 2 } },
+  ];
+  const data: { [key: string]: DailyData } = {
+    '2024-12-30': { entries: [entry(1, 8, 7.25)] },
+    '2025-01-10': { entries: [entry(2, 11, 10.15, { tuntikorttiItems: [{ id: 1, minutes: 30, reason: 'muu' }] })] },
+    '2025-02-03': { entries: [entry(3, 8, 7.25), entry(4, 4, 4, { code: '0721' })], absence: undefined },
+    '2025-02-08': { entries: [entry(5, 8, 7.736, { freeDay: true })] },
+  };
+  const report = getAnnualReport(data, 2025, { kind: 'semiMonthly' }, {
+    warehouse: 'pakaste',
+    rateTables,
+    workCodes: [],
+    payConfig: { baseWage: 20, overtimeTier1Hours: 2 },
+  });
+
+  it('totals each month of the year only', () => {
+    expect(report.months[0]).toMatchObject({
+      workedHours: 11,
+      paidHours: 10.5,
+      overtimeHours: 3,
+      tuntikorttiHours: 0.5,
+    });
+    // 12 h over two entries on 3.2. and a free day on 8.2.
+    expect(report.months[1]).toMatchObject({ workedHours: 20, overtimeHours: 12 });
+    expect(report.months.slice(2).every((month) => month.workedHours === 0)).toBe(true);
+    expect(report.total.workedHours).toBe(31);
+    expect(report.total.overtimeHours).toBe(15);
+  });
+
+  it('lists the codes with their averages', () => {
+    expect(report.codes).toEqual(['0591', '0721']);
+    expect(Math.round(report.months[0].averages['0591'])).toBe(100);
+    expect(report.months[0].averages).not.toHaveProperty('0721');
+  });
+
+  it('pays the bonus of each period for the paid hours of the month', () => {
+    // 0591 averages 100 % in both periods; 0721 has no table.
+    expect(report.months[0].bonusEuros).toBeCloseTo(10.5 * 2);
+    expect(report.months[1].bonusEuros).toBeCloseTo((7.5 + 8) * 2);
+  });
+});
+
+describe('annualReportToCsv', () => {
+  const report: AnnualReport = {
+    year: 2025,
+    codes: ['0591', '0721'],
+    months: Array.from({ length: 12 }, (_, month) =>
+      month === 0 ? row({ workedHours: 11, paidHours: 10.5, averages: { '0591': 104.567 }, bonusEuros: 21 }) : row()
+    ),
+    total: row({ workedHours: 11, paidHours: 10.5, averages: { '0591': 104.567 }, bonusEuros: 21 }),
+  };
+  const workCodes: WorkCode[] = [
+    { code: '0591', label: 'Keräys; pakaste' },
+    { code: '0721', label: 'Trukki "iso"' },
+  ];
+  const lines = annualReportToCsv(report, workCodes).split('\r\n');
+
+  it('quotes header cells with separators or quotes', () => {
+    expect(lines[0].split(';').slice(0, 5)).toEqual([
+      'Kuukausi',
+      'Tehdyt tunnit',
+      'Maksetut tunnit',
+      'Ylityötunnit',
+      'Tuntikortti (h)',
+    ]);
+    expect(lines[0]).toContain(';"Keräys; pakaste (0591) %";"Trukki ""iso"" (0721) %";Suoritepalkkio (€)');
+  });
+
+  it('writes decimal commas and leaves missing averages empty', () => {
+    expect(lines[1]).toBe('tammikuu;11,00;10,50;0,00;0,00;104,57;;21,00');
+    expect(lines[2]).toBe('helmikuu;0,00;0,00;0,00;0,00;;;0,00');
+  });
+
+  it('ends with the year total', () => {
+    expect(lines).toHaveLength(14);
+    expect(lines[13].startsWith('Yhteensä;11,00;')).toBe(true);
+  });
+});
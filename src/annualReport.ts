@@ -0,0 +1,147 @@
+// annualReport.ts
+import { DailyData, calculateAverage, entryPaidHours, getDayEntries, toDayNumber } from './utils';
+import { getHourRules } from './hourRules';
+import { PeriodModel, getNextPeriod, getPeriodForDate, isDateInPeriod } from './periods';
+import { PayContext, getPeriodBonuses, overtimeHours } from './pay';
+import { sumTuntikorttiMinutes } from './tuntikortti';
+import { WorkCode, getWorkCodeLabel, isInWorkGroup, sortWorkCodes } from './workCodes';
+
+/**
+ * Totals of one month, or of the whole year. Worked hours are the hours as
+ * entered; paid hours follow the hour rules of each entry's warehouse.
+ */
+export interface ReportRow {
+  workedHours: number;
+  paidHours: number;
+  overtimeHours: number;
+  tuntikorttiHours: number;
+  // Hours-weighted average percentage of each work code with entries.
+  averages: { [code: string]: number };
+  bonusEuros: number;
+}
+
+export interface AnnualReport {
+  year: number;
+  // Work codes with entries during the year, in the user's order.
+  codes: string[];
+  // January first.
+  months: ReportRow[];
+  total: ReportRow;
+}
+
+const emptyRow = (): ReportRow => ({
+  workedHours: 0,
+  paidHours: 0,
+  overtimeHours: 0,
+  tuntikorttiHours: 0,
+  averages: {},
+  bonusEuros: 0,
+});
+
+/**
+ * Builds the report of the given year from calendarData. A period's bonus is
+ * hours times the rate of the period average, so each month gets the bonus of
+ * the paid hours worked in it, even when a period spans two months.
+ */
+export const getAnnualReport = (
+  data: { [key: string]: DailyData },
+  year: number,
+  model: PeriodModel,
+  context: Pick<PayContext, 'warehouse' | 'rateTables' | 'workCodes' | 'payConfig'>
+): AnnualReport => {
+  const { warehouse, workCodes, payConfig } = context;
+  const rulesFor = (entry: { warehouse?: string }) => getHourRules(entry.warehouse ?? warehouse);
+  const dateStrings = Object.keys(data).filter((dateString) => dateString.startsWith(`${year}-`));
+  const months = Array.from({ length: 12 }, emptyRow);
+  const total = emptyRow();
+  const monthOf = (dateString: string) => Number(dateString.slice(5, 7)) - 1;
+
+  dateStrings.forEach((dateString) => {
+    const row = months[monthOf(dateString)];
+    const dayEntries = getDayEntries(data[dateString]);
+    dayEntries.forEach((entry) => {
+      row.workedHours += entry.hours;
+      row.paidHours += entryPaidHours(entry, rulesFor(entry));
+      row.tuntikorttiHours += sumTuntikorttiMinutes(entry.tuntikorttiItems) / 60;
+    });
+    if (dayEntries.length > 0) {
+      const overtime = overtimeHours(dayEntries, payConfig, rulesFor(dayEntries[0]));
+      row.overtimeHours += overtime.tier50 + overtime.tier100;
+    }
+  });
+
+  const yearEnd = toDayNumber(new Date(year, 11, 31));
+  for (
+    let period = getPeriodForDate(new Date(year, 0, 1), model);
+    toDayNumber(period.start) <= yearEnd;
+    period = getNextPeriod(period, model)
+  ) {
+    const current = period;
+    const bonuses = getPeriodBonuses(data, current, context);
+    dateStrings
+      .filter((dateString) => isDateInPeriod(new Date(dateString + 'T00:00:00'), current))
+      .forEach((dateString) => {
+        getDayEntries(data[dateString]).forEach((entry) => {
+          const bonus = bonuses.find((b) => isInWorkGroup(entry, b, warehouse));
+          if (bonus) months[monthOf(dateString)].bonusEuros += entryPaidHours(entry, getHourRules(bonus.warehouse)) * bonus.rate;
+        });
+      });
+  }
+
+  const codes = sortWorkCodes(
+    Array.from(new Set(dateStrings.flatMap((dateString) => getDayEntries(data[dateString]).map((entry) => entry.code)))),
+    workCodes
+  );
+  const averagesOf = (filterDates: (d: Date) => boolean): { [code: string]: number } => {
+    const averages: { [code: string]: number } = {};
+    codes.forEach((code) => {
+      const average = calculateAverage(data, filterDates, (entry) => entry.code === code, rulesFor);
+      if (average.effectiveHours > 0) averages[code] = average.percentage;
+    });
+    return averages;
+  };
+  months.forEach((row, month) => {
+    row.averages = averagesOf((d) => d.getFullYear() === year && d.getMonth() === month);
+    total.workedHours += row.workedHours;
+    total.paidHours += row.paidHours;
+    total.overtimeHours += row.overtimeHours;
+    total.tuntikorttiHours += row.tuntikorttiHours;
+    total.bonusEuros += row.bonusEuros;
+  });
+  total.averages = averagesOf((d) => d.getFullYear() === year);
+  return { year, codes, months, total };
+};
+
+export const getMonthName = (month: number): string =>
+  new Date(2000, month, 1).toLocaleDateString('fi-FI', { month: 'long' });
+
+// Semicolons and decimal commas, as spreadsheet programs in Finnish locale expect.
+const formatCsvNumber = (value: number | undefined): string => (value === undefined ? '' : value.toFixed(2).replace('.', ','));
+
+// Cells with a separator, quote or line break are quoted, doubling any quotes inside.
+const formatCsvCell = (value: string): string => (/[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const toCsvRow = (label: string, row: ReportRow, codes: string[]): string =>
+  [
+    formatCsvCell(label),
+    ...[row.workedHours, row.paidHours, row.overtimeHours, row.tuntikorttiHours].map(formatCsvNumber),
+    ...codes.map((code) => formatCsvNumber(row.averages[code])),
+    formatCsvNumber(row.bonusEuros),
+  ].join(';');
+
+export const annualReportToCsv = (report: AnnualReport, workCodes: WorkCode[]): string =>
+  [
+    [
+      'Kuukausi',
+      'Tehdyt tunnit',
+      'Maksetut tunnit',
+      'Ylityötunnit',
+      'Tuntikortti (h)',
+      ...report.codes.map((code) => `${getWorkCodeLabel(workCodes, code)} (${code}) %`),
+      'Suoritepalkkio (€)',
+    ]
+      .map(formatCsvCell)
+      .join(';'),
+    ...report.months.map((row, month) => toCsvRow(getMonthName(month), row, report.codes)),
+    toCsvRow('Yhteensä', report.total, report.codes),
+  ].join('\r\n');
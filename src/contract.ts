@@ -0,0 +1,82 @@
+// contract.ts
+import { effectiveHours, paidHours } from './utils';
+import { HourRuleset, defaultHourRules } from './hourRules';
+import { HolidayException } from './holidays';
+import { Roster, getPlannedHours } from './roster';
+
+/**
+ * What a default shift is: a normal shift, an own shift that continues as
+ * overtime, or an extra shift on a day off.
+ */
+export type ContractShiftType = 'normal' | 'overtime' | 'extra';
+
+export const CONTRACT_SHIFT_TYPE_LABELS: { [type in ContractShiftType]: string } = {
+  normal: 'Normaali vuoro',
+  overtime: 'Oma vuoro + ylityö',
+  extra: 'Lisävuoro',
+};
+
+/**
+ * The user's employment contract: length and type of a default shift. Used for
+ * planned future days and to prefill new entries.
+ */
+export interface ContractSettings {
+  shiftHours: number;
+  shiftType: ContractShiftType;
+}
+
+export const DEFAULT_CONTRACT: ContractSettings = { shiftHours: 8, shiftType: 'normal' };
+
+/**
+ * The entry flags a shift of the contract's type is saved with.
+ */
+export const contractShiftFlags = (contract: ContractSettings): { overtime: boolean; freeDay: boolean } => ({
+  overtime: contract.shiftType === 'overtime',
+  freeDay: contract.shiftType === 'extra',
+});
+
+/**
+ * The entry flags of a shift worked on the given day: a day off in the roster
+ * makes it an extra shift, otherwise the contract's shift type applies.
+ */
+export const dayShiftFlags = (
+  d: Date,
+  contract: ContractSettings,
+  roster: Roster,
+  holidayExceptions: HolidayException[] = []
+): { overtime: boolean; freeDay: boolean } =>
+  getPlannedHours(d, roster, contract.shiftHours, holidayExceptions) === 0 ? { overtime: false, freeDay: true } : contractShiftFlags(contract);
+
+/**
+ * Effective hours of a planned shift of the given length, worked as the
+ * contract's shift type.
+ */
+export const plannedEffectiveHours = (
+  hours: number,
+  contract: ContractSettings = DEFAULT_CONTRACT,
+  rules: HourRuleset = defaultHourRules
+): number => {
+  const { overtime, freeDay } = contractShiftFlags(contract);
+  return effectiveHours(hours, overtime, freeDay, true, rules);
+};
+
+export const plannedPaidHours = (
+  hours: number,
+  contract: ContractSettings = DEFAULT_CONTRACT,
+  rules: HourRuleset = defaultHourRules
+): number => {
+  const { overtime, freeDay } = contractShiftFlags(contract);
+  return paidHours(hours, overtime, freeDay, rules);
+};
+
+export const isValidContract = (value: unknown): value is ContractSettings => {
+  if (!value || typeof value !== 'object') return false;
+  const { shiftHours, shiftType } = value as { [key: string]: unknown };
+  return (
+    typeof shiftHours === 'number' &&
+    shiftHours > 0 &&
+    shiftHours <= 16 &&
+    typeof shiftType === 'string' &&
+    shiftType in CONTRACT_SHIFT_TYPE_LABELS
+  );
+};
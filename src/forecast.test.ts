@@ -0,0 +1,99 @@
+// forecast.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DailyData, toDateKey } from './utils';
+import { forecastPeriod, getDailyPercentages } from './forecast';
+import { getPeriodForDate } from './periods';
+import { Roster } from './roster';
+
+const group = { warehouse: 'pakaste', code: '0591' };
+const weekdays: Roster = { anchor: '2024-01-01', pattern: [8, 8, 8, 8, 8, 0, 0], shifts: [] };
+
+// An 8 h normal shift has 7.25 effective hours.
+const dayAt = (percentage: number, id = 1): DailyData => ({
+  entries: [
+    {
+      id,
+      code: '0591',
+      warehouse: 'pakaste',
+      performance: (percentage / 100) * 7.25,
+      hours: 8,
+      overtime: false,
+      freeDay: false,
+    },
+  ],
+});
+
+// The weekdays of February 2025 at the given percentages, in turn.
+const february = (percentages: number[]): { [key: string]: DailyData } => {
+  const data: { [key: string]: DailyData } = {};
+  let i = 0;
+  for (let date = 3; date <= 28; date++) {
+    const d = new Date(2025, 1, date);
+    if (d.getDay() === 0 || d.getDay() === 6) continue;
+    data[toDateKey(d)] = dayAt(percentages[i++ % percentages.length], i);
+  }
+  return data;
+};
+
+describe('forecast', () => {
+  // Wednesday 5.3.2025, with eight planned shifts left in the period 1.–15.3.
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 2, 5, 10, 0));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+  const period = getPeriodForDate(new Date(2025, 2, 5));
+
+  describe('getDailyPercentages', () => {
+    it('groups past days by weekday within the lookback', () => {
+      const data = {
+        '2025-03-04': dayAt(90),
+        '2025-03-05': dayAt(200),
+        '2025-02-25': dayAt(110),
+        '2024-01-02': dayAt(50),
+      };
+      const byWeekday = getDailyPercentages(data, group, 'pakaste', 180);
+      expect(byWeekday[2].map(Math.round)).toEqual([90, 110]);
+      expect(byWeekday.flat()).toHaveLength(2);
+    });
+
+    it('skips other work groups', () => {
+      const byWeekday = getDailyPercentages({ '2025-03-04': dayAt(90) }, { ...group, code: '0721' }, 'pakaste');
+      expect(byWeekday.flat()).toEqual([]);
+    });
+  });
+
+  describe('forecastPeriod', () => {
+    it('needs history', () => {
+      expect(forecastPeriod({}, period, group, 100, 'pakaste', [], weekdays)).toBeNull();
+    });
+
+    it('lands on a steady pace', () => {
+      const forecast = forecastPeriod(february([100]), period, group, 100, 'pakaste', [], weekdays);
+      expect(forecast?.expected).toBeCloseTo(100);
+      expect(forecast?.low).toBeCloseTo(100);
+      expect(forecast?.high).toBeCloseTo(100);
+      expect(forecast?.probability).toBe(1);
+      expect(forecastPeriod(february([100]), period, group, 101, 'pakaste', [], weekdays)?.probability).toBe(0);
+    });
+
+    it('gives the same range on every call for a varying pace', () => {
+      const data = february([80, 120, 95, 110]);
+      const forecast = forecastPeriod(data, period, group, 100, 'pakaste', [], weekdays);
+      expect(forecast).toEqual(forecastPeriod(data, period, group, 100, 'pakaste', [], weekdays));
+      expect(forecast?.sampleDays).toBe(20);
+      expect(forecast!.low).toBeLessThan(forecast!.expected);
+      expect(forecast!.expected).toBeLessThan(forecast!.high);
+      expect(forecast!.low).toBeGreaterThanOrEqual(80);
+      expect(forecast!.high).toBeLessThanOrEqual(120);
+    });
+
+    it('counts what is already logged in the period', () => {
+      const data = { ...february([100]), '2025-03-03': dayAt(200), '2025-03-04': dayAt(200) };
+      // Two logged days at 200 % and eight planned at 100 % or more.
+      expect(forecastPeriod(data, period, group, 100, 'pakaste', [], weekdays)?.low).toBeGreaterThanOrEqual(119.99);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+// forecast.ts
+import { DailyData, calculateAverage, entryEffectiveHours, getDayEntries, toDayNumber } from './utils';
+import { getHourRules } from './hourRules';
+import { HolidayException } from './holidays';
+import { Period, isDateInPeriod } from './periods';
+import { DEFAULT_ROSTER, Roster } from './roster';
+import { ContractSettings, DEFAULT_CONTRACT, plannedEffectiveHours } from './contract';
+import { WorkGroup, isInWorkGroup } from './workCodes';
+import { getRemainingPlannedShifts } from './usePerformanceCalculations';
+
+export interface PeriodForecast {
+  // Mean of the simulated final period averages.
+  expected: number;
+  // 10th and 90th percentile: the final average lands in this range four times out of five.
+  low: number;
+  high: number;
+  // Share of simulations (0–1) that reach the goal.
+  probability: number;
+  // Past days the forecast is drawn from.
+  sampleDays: number;
+}
+
+export interface ForecastOptions {
+  // How far back past days are taken into account.
+  lookbackDays: number;
+  // Weekdays with fewer past days than this draw from all weekdays instead.
+  minWeekdaySamples: number;
+  simulations: number;
+}
+
+export const DEFAULT_FORECAST_OPTIONS: ForecastOptions = {
+  lookbackDays: 180,
+  minWeekdaySamples: 3,
+  simulations: 2000,
+};
+
+// Small seeded generator so the forecast does not jump around between renders.
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(p * sorted.length)))];
+
+/**
+ * Past daily percentages of the group, by weekday (0 = Sunday). Only days
+ * before today and within the lookback window count.
+ */
+export const getDailyPercentages = (
+  data: { [key: string]: DailyData },
+  group: WorkGroup,
+  defaultWarehouse: string,
+  lookbackDays: number = DEFAULT_FORECAST_OPTIONS.lookbackDays
+): number[][] => {
+  const today = toDayNumber(new Date());
+  const rules = getHourRules(group.warehouse);
+  const byWeekday: number[][] = [[], [], [], [], [], [], []];
+  Object.keys(data).forEach((dateString) => {
+    const d = new Date(dateString + 'T00:00:00');
+    const age = today - toDayNumber(d);
+    if (age <= 0 || age > lookbackDays) return;
+    const entries = getDayEntries(data[dateString]).filter((entry) => isInWorkGroup(entry, group, defaultWarehouse));
+    const eff = entries.reduce((sum, entry) => sum + entryEffectiveHours(entry, rules), 0);
+    if (eff <= 0) return;
+    const performance = entries.reduce((sum, entry) => sum + entry.performance, 0);
+    byWeekday[d.getDay()].push((performance / eff) * 100);
+  });
+  return byWeekday;
+};
+
+/**
+ * Forecasts the group's final period average by drawing a past percentage of
+ * the same weekday for every remaining planned shift, many times over.
+ * Returns null when there is no history to draw from.
+ */
+export const forecastPeriod = (
+  data: { [key: string]: DailyData },
+  period: Period,
+  group: WorkGroup,
+  goal: number,
+  // Selected warehouse: its hour rules apply to the planned shifts.
+  warehouse: string,
+  holidayExceptions: HolidayException[] = [],
+  roster: Roster = DEFAULT_ROSTER,
+  contract: ContractSettings = DEFAULT_CONTRACT,
+  options: ForecastOptions = DEFAULT_FORECAST_OPTIONS
+): PeriodForecast | null => {
+  const byWeekday = getDailyPercentages(data, group, warehouse, options.lookbackDays);
+  const allDays = byWeekday.flat();
+  if (allDays.length === 0) return null;
+
+  const logged = calculateAverage(
+    data,
+    (d) => isDateInPeriod(d, period),
+    (entry) => isInWorkGroup(entry, group, warehouse),
+    () => getHourRules(group.warehouse)
+  );
+  const plannedRules = getHourRules(warehouse);
+  const remaining = getRemainingPlannedShifts(data, period, roster, holidayExceptions, contract).map((shift) => {
+    const weekdaySamples = byWeekday[new Date(shift.date + 'T00:00:00').getDay()];
+    return {
+      effective: plannedEffectiveHours(shift.hours, contract, plannedRules),
+      samples: weekdaySamples.length >= options.minWeekdaySamples ? weekdaySamples : allDays,
+    };
+  });
+  const totalEffective = logged.effectiveHours + remaining.reduce((sum, shift) => sum + shift.effective, 0);
+  if (totalEffective <= 0) return null;
+
+  const random = createRandom(toDayNumber(period.start));
+  const outcomes: number[] = [];
+  for (let i = 0; i < options.simulations; i++) {
+    let performance = logged.performance;
+    remaining.forEach((shift) => {
+      const percentage = shift.samples[Math.floor(random() * shift.samples.length)];
+      performance += (percentage / 100) * shift.effective;
+    });
+    outcomes.push((performance / totalEffective) * 100);
+  }
+  outcomes.sort((a, b) => a - b);
+  return {
+    expected: outcomes.reduce((sum, value) => sum + value, 0) / outcomes.length,
+    low: percentile(outcomes, 0.1),
+    high: percentile(outcomes, 0.9),
+    // Rounded like the average shown on the cards.
+    probability: outcomes.filter((value) => Math.round(value) >= goal).length / outcomes.length,
+    sampleDays: allDays.length,
+  };
+};
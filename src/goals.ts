@@ -0,0 +1,106 @@
+// goals.ts
+import { DailyData, calculateAverage, getDayEntries, toDateKey } from './utils';
+import { getHourRules } from './hourRules';
+import { Period, PeriodModel, getPreviousPeriod, isDateInPeriod } from './periods';
+import { WorkCode, WorkCodeGoals, WorkGroup, getWorkGroups, isInWorkGroup, isValidWorkCodeGoals } from './workCodes';
+
+/**
+ * Goals per work code, keyed by the start day (YYYY-MM-DD) of the period they
+ * were set in. A period uses the goals set in it and inherits the rest from
+ * earlier periods, so changing a goal never rejudges past periods.
+ */
+export type PeriodGoals = { [periodStart: string]: WorkCodeGoals };
+
+// Goals saved before per-period goals apply to every period.
+export const BASELINE_GOAL_KEY = '2000-01-01';
+
+// Goal of a code that has never had one, matching the bottom of the slider.
+export const DEFAULT_GOAL = 100;
+
+/**
+ * The goals in force during the period: for each code, the one set in the
+ * latest period starting on or before it.
+ */
+export const getGoalsForPeriod = (periodGoals: PeriodGoals, period: Period): WorkCodeGoals => {
+  const start = toDateKey(period.start);
+  return Object.keys(periodGoals)
+    .filter((key) => key <= start)
+    .sort()
+    .reduce((goals: WorkCodeGoals, key) => ({ ...goals, ...periodGoals[key] }), {});
+};
+
+export const setPeriodGoal = (periodGoals: PeriodGoals, period: Period, code: string, goal: number): PeriodGoals => {
+  const key = toDateKey(period.start);
+  return { ...periodGoals, [key]: { ...periodGoals[key], [code]: goal } };
+};
+
+export interface GoalResult extends WorkGroup {
+  goal: number;
+  // Hours-weighted average percentage of the period.
+  percentage: number;
+  met: boolean;
+}
+
+export interface PeriodGoalHistory {
+  period: Period;
+  results: GoalResult[];
+}
+
+/**
+ * Whether each work group met its goal in the given period.
+ */
+export const getPeriodGoalResults = (
+  data: { [key: string]: DailyData },
+  period: Period,
+  periodGoals: PeriodGoals,
+  defaultWarehouse: string,
+  workCodes: WorkCode[]
+): GoalResult[] => {
+  const inPeriod = (d: Date) => isDateInPeriod(d, period);
+  const entries = Object.keys(data)
+    .filter((dateString) => inPeriod(new Date(dateString + 'T00:00:00')))
+    .flatMap((dateString) => getDayEntries(data[dateString]));
+  const goals = getGoalsForPeriod(periodGoals, period);
+  return getWorkGroups(entries, defaultWarehouse, workCodes).map((group) => {
+    const rules = getHourRules(group.warehouse);
+    const average = calculateAverage(
+      data,
+      inPeriod,
+      (entry) => isInWorkGroup(entry, group, defaultWarehouse),
+      () => rules
+    );
+    const goal = goals[group.code] ?? DEFAULT_GOAL;
+    const percentage = Math.round(average.percentage);
+    return { ...group, goal, percentage, met: percentage >= goal };
+  });
+};
+
+/**
+ * Goal results of up to `count` periods with entries, starting from `period`
+ * and going back at most `maxPeriods` periods.
+ */
+export const getGoalHistory = (
+  data: { [key: string]: DailyData },
+  period: Period,
+  model: PeriodModel,
+  periodGoals: PeriodGoals,
+  defaultWarehouse: string,
+  workCodes: WorkCode[],
+  count: number = 6,
+  maxPeriods: number = 26
+): PeriodGoalHistory[] => {
+  const history: PeriodGoalHistory[] = [];
+  let current = period;
+  for (let i = 0; i < maxPeriods && history.length < count; i++) {
+    const results = getPeriodGoalResults(data, current, periodGoals, defaultWarehouse, workCodes);
+    if (results.length > 0) history.push({ period: current, results });
+    current = getPreviousPeriod(current, model);
+  }
+  return history;
+};
+
+export const isValidPeriodGoals = (value: unknown): value is PeriodGoals =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  Object.values(value).every(isValidWorkCodeGoals);
@@ -0,0 +1,55 @@
+// holidays.test.ts
+import { describe, expect, it } from 'vitest';
+import { HolidayException, getEasterSunday, getFinnishHolidays, getHolidayName, isHoliday } from './holidays';
+import { toDateKey } from './utils';
+
+const day = (key: string) => new Date(key + 'T00:00:00');
+const holidayDate = (year: number, name: string) => getFinnishHolidays(year).find((h) => h.name === name)?.date;
+
+describe('getEasterSunday', () => {
+  it.each([
+    [2024, '2024-03-31'],
+    [2025, '2025-04-20'],
+    [2026, '2026-04-05'],
+    [2038, '2038-04-25'],
+  ])('%i', (year, expected) => {
+    expect(toDateKey(getEasterSunday(year))).toBe(expected);
+  });
+});
+
+describe('getFinnishHolidays', () => {
+  it('lists the fixed and movable days of 2025', () => {
+    expect(getFinnishHolidays(2025)).toHaveLength(15);
+    expect(holidayDate(2025, 'Pitkäperjantai')).toBe('2025-04-18');
+    expect(holidayDate(2025, '2. pääsiäispäivä')).toBe('2025-04-21');
+    expect(holidayDate(2025, 'Helatorstai')).toBe('2025-05-29');
+    expect(holidayDate(2025, 'Helluntaipäivä')).toBe('2025-06-08');
+    expect(holidayDate(2025, 'Itsenäisyyspäivä')).toBe('2025-12-06');
+  });
+
+  it('puts Midsummer and All Saints on the Saturday of their week', () => {
+    expect(holidayDate(2024, 'Juhannusaatto')).toBe('2024-06-21');
+    expect(holidayDate(2024, 'Juhannuspäivä')).toBe('2024-06-22');
+    expect(holidayDate(2025, 'Juhannuspäivä')).toBe('2025-06-21');
+    expect(holidayDate(2024, 'Pyhäinpäivä')).toBe('2024-11-02');
+    expect(holidayDate(2025, 'Pyhäinpäivä')).toBe('2025-11-01');
+  });
+});
+
+describe('getHolidayName', () => {
+  it('names built-in holidays and returns null on other days', () => {
+    expect(getHolidayName(day('2025-12-24'))).toBe('Jouluaatto');
+    expect(getHolidayName(new Date(2025, 11, 25, 15, 30))).toBe('Joulupäivä');
+    expect(getHolidayName(day('2025-12-23'))).toBeNull();
+  });
+
+  it('lets exceptions add days off and cancel holidays', () => {
+    const exceptions: HolidayException[] = [
+      { date: '2025-12-23', name: 'Inventaario', type: 'holiday' },
+      { date: '2025-01-06', name: 'Loppiainen', type: 'workday' },
+    ];
+    expect(getHolidayName(day('2025-12-23'), exceptions)).toBe('Inventaario');
+    expect(isHoliday(day('2025-01-06'), exceptions)).toBe(false);
+    expect(isHoliday(day('2025-01-06'))).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+// holidays.ts
+import { toDateKey } from './utils';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+/**
+ * A local change to the built-in calendar: either an extra day off
+ * ("holiday") or a public holiday that is worked as usual ("workday").
+ */
+export interface HolidayException {
+  date: string;
+  name: string;
+  type: 'holiday' | 'workday';
+}
+
+/**
+ * Easter Sunday for the given year (anonymous Gregorian algorithm).
+ */
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// First date on or after (year, month, day) that falls on the given weekday.
+const firstWeekdayFrom = (year: number, month: number, day: number, weekday: number): Date => {
+  const start = new Date(year, month, day);
+  return new Date(year, month, day + ((weekday - start.getDay() + 7) % 7));
+};
+
+const addDays = (d: Date, days: number): Date => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+
+const holidayCache: { [year: number]: Holiday[] } = {};
+
+/**
+ * Finnish public holidays and customary days off for the given year,
+ * including the movable feasts around Easter, Midsummer and All Saints' Day.
+ */
+export const getFinnishHolidays = (year: number): Holiday[] => {
+  if (holidayCache[year]) return holidayCache[year];
+  const easter = getEasterSunday(year);
+  const midsummerDay = firstWeekdayFrom(year, 5, 20, 6);
+  const holidays: [Date, string][] = [
+    [new Date(year, 0, 1), 'Uudenvuodenpäivä'],
+    [new Date(year, 0, 6), 'Loppiainen'],
+    [addDays(easter, -2), 'Pitkäperjantai'],
+    [easter, 'Pääsiäispäivä'],
+    [addDays(easter, 1), '2. pääsiäispäivä'],
+    [new Date(year, 4, 1), 'Vappu'],
+    [addDays(easter, 39), 'Helatorstai'],
+    [addDays(easter, 49), 'Helluntaipäivä'],
+    [addDays(midsummerDay, -1), 'Juhannusaatto'],
+    [midsummerDay, 'Juhannuspäivä'],
+    [firstWeekdayFrom(year, 9, 31, 6), 'Pyhäinpäivä'],
+    [new Date(year, 11, 6), 'Itsenäisyyspäivä'],
+    [new Date(year, 11, 24), 'Jouluaatto'],
+    [new Date(year, 11, 25), 'Joulupäivä'],
+    [new Date(year, 11, 26), 'Tapaninpäivä'],
+  ];
+  holidayCache[year] = holidays.map(([date, name]) => ({ date: toDateKey(date), name }));
+  return holidayCache[year];
+};
+
+/**
+ * Returns the name of the holiday on the given date, taking the user's
+ * exceptions into account, or null if it is not a holiday.
+ */
+export const getHolidayName = (d: Date, exceptions: HolidayException[] = []): string | null => {
+  const key = toDateKey(d);
+  const exception = exceptions.find((e) => e.date === key);
+  if (exception) {
+    return exception.type === 'holiday' ? exception.name : null;
+  }
+  return getFinnishHolidays(d.getFullYear()).find((h) => h.date === key)?.name ?? null;
+};
+
+export const isHoliday = (d: Date, exceptions: HolidayException[] = []): boolean =>
+  getHolidayName(d, exceptions) !== null;
+
+export const isValidHolidayExceptions = (value: unknown): value is HolidayException[] =>
+  Array.isArray(value) &&
+  value.every(
+    (e) => e && typeof e.date === 'string' && typeof e.name === 'string' && (e.type === 'holiday' || e.type === 'workday')
+  );
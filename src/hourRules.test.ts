@@ -0,0 +1,25 @@
+// hourRules.test.ts
+import { describe, expect, it } from 'vitest';
+import { defaultHourRules, getHourRules, hourRulesets } from './hourRules';
+import { WAREHOUSES } from './rateTables';
+import { checkHourRuleFixtures } from './utils';
+
+describe.each(hourRulesets.map((rules) => [rules.warehouse, rules] as const))('hour rules: %s', (_, rules) => {
+  it('has fixtures', () => {
+    expect(rules.fixtures.length).toBeGreaterThan(0);
+  });
+
+  it('reproduces its fixtures', () => {
+    expect(checkHourRuleFixtures(rules)).toEqual([]);
+  });
+});
+
+describe('getHourRules', () => {
+  it.each(WAREHOUSES.map((w) => w.id))('finds the own ruleset of %s', (warehouse) => {
+    expect(getHourRules(warehouse).warehouse).toBe(warehouse);
+  });
+
+  it('falls back to the default ruleset', () => {
+    expect(getHourRules('unknown')).toBe(defaultHourRules);
+  });
+});
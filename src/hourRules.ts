@@ -0,0 +1,64 @@
+// hourRules.ts
+import bundledHourRules from './hourRules.json';
+
+/**
+ * A worked example that the ruleset must reproduce. Checked by `npm test`
+ * (see hourRules.test.ts).
+ */
+export interface HourRuleFixture {
+  hours: number;
+  overtime: boolean;
+  freeDay: boolean;
+  applyBreakDeduction?: boolean;
+  effective: number;
+  paid: number;
+}
+
+/**
+ * Declarative rules for turning logged hours into effective and paid hours.
+ * One ruleset per warehouse; "default" applies to warehouses without their own.
+ * Pakaste, KV1 and KV2 currently have the same values under the same
+ * collective agreement, but each is looked up and changed on its own.
+ */
+export interface HourRuleset {
+  warehouse: string;
+  // Own shift without overtime.
+  normal: {
+    // Shifts shorter than this get no break deduction.
+    breakThresholdHours: number;
+    breakDeduction: number;
+    standardShiftHours: number;
+    // Hours past standardShiftHours count with this factor.
+    extraHourFactor: number;
+  };
+  // Own shift plus overtime ("Oma vuoro + ylityö").
+  overtime: {
+    // Hours are clamped to [minHours, maxHours].
+    minHours: number;
+    maxHours: number;
+    // Effective hours credited for the first minHours.
+    baseEffectiveHours: number;
+    extraHourFactor: number;
+  };
+  // Overtime on a free day ("Ylityö").
+  freeDay: {
+    factor: number;
+  };
+  // Paid hours shown in Tavoite: unpaid break on own shifts.
+  paidHours: {
+    thresholdHours: number;
+    breakDeduction: number;
+  };
+  fixtures: HourRuleFixture[];
+}
+
+export const hourRulesets: HourRuleset[] = bundledHourRules;
+
+export const defaultHourRules: HourRuleset =
+  hourRulesets.find((r) => r.warehouse === 'default') ?? hourRulesets[0];
+
+/**
+ * Returns the ruleset for the given warehouse, falling back to the default.
+ */
+export const getHourRules = (warehouse: string): HourRuleset =>
+  hourRulesets.find((r) => r.warehouse === warehouse) ?? defaultHourRules;
@@ -9,6 +9,10 @@ import FAQ from './FAQ';
 import Navbar from './Navbar';
 import Multiplier from './Multiplier';     // Pohjalaskuri page (Multiplier)
 import MeatCalculator from './MeatCalculator'; // Lihalaskuri page (MeatCalculator)
+import Settings from './Settings';
+import Statistics from './Statistics';
+import PeriodArchive from './PeriodArchive';
+import AnnualSummary from './AnnualSummary';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -19,6 +23,10 @@ createRoot(document.getElementById('root')!).render(
         <Route path="/faq" element={<FAQ />} />
         <Route path="/pohjalaskuri" element={<Multiplier />} />
         <Route path="/lihalaskuri" element={<MeatCalculator />} />
+        <Route path="/tilastot" element={<Statistics />} />
+        <Route path="/jaksot" element={<PeriodArchive />} />
+        <Route path="/vuosiraportti" element={<AnnualSummary />} />
+        <Route path="/asetukset" element={<Settings />} />
       </Routes>
     </BrowserRouter>
   </StrictMode>
@@ -0,0 +1,66 @@
+// migration.test.ts
+import { describe, expect, it } from 'vitest';
+import { migrateOldData } from './migration';
+import { DailyData } from './utils';
+
+const old = { performance: 7.25, hours: 8, overtime: false, freeDay: false };
+
+describe('migrateOldData', () => {
+  it('turns the oldest single-entry day into a default work code entry', () => {
+    expect(migrateOldData({ '2024-05-02': old }, 'kv1')).toEqual({
+      '2024-05-02': { entries: [{ ...old, id: 1, code: '0591', warehouse: 'kv1' }] },
+    });
+  });
+
+  it('turns the normal and forklift slots into one entry each', () => {
+    const day = { normal: old, forklift: { ...old, hours: 2, warehouse: 'kv2' }, absence: { type: 'koulutus' } };
+    const migrated = migrateOldData({ '2024-05-02': day }, 'pakaste');
+    expect(migrated['2024-05-02']).toEqual({
+      absence: { type: 'koulutus' },
+      entries: [
+        { ...old, id: 1, code: '0591', warehouse: 'pakaste' },
+        { ...old, hours: 2, id: 2, code: '0721', warehouse: 'kv2' },
+      ],
+    });
+  });
+
+  it('converts an old tuntikortti total into a single item', () => {
+    const migrated = migrateOldData(
+      { '2024-05-02': { normal: { ...old, tuntikortti: 1.5 } }, '2024-05-03': { normal: { ...old, tuntikortti: 0 } } },
+      'pakaste'
+    );
+    expect(migrated['2024-05-02'].entries?.[0].tuntikorttiItems).toEqual([{ id: 1, minutes: 90, reason: 'muu' }]);
+    expect(migrated['2024-05-02'].entries?.[0]).not.toHaveProperty('tuntikortti');
+    expect(migrated['2024-05-03'].entries?.[0]).not.toHaveProperty('tuntikorttiItems');
+  });
+
+  it('keeps absence-only days', () => {
+    expect(migrateOldData({ '2024-07-01': { absence: { type: 'loma' } } }, 'pakaste')).toEqual({
+      '2024-07-01': { absence: { type: 'loma' } },
+    });
+  });
+
+  it('leaves data in the current format as it is', () => {
+    const current: { [key: string]: DailyData } = {
+      '2025-01-02': {
+        entries: [
+          { ...old, id: 5, code: '0721', warehouse: 'kv2', tuntikorttiItems: [{ id: 1, minutes: 15, reason: 'muu' }] },
+        ],
+      },
+      '2025-01-03': {
+        checkpoint: {
+          code: '0591',
+          warehouse: 'pakaste',
+          startTime: '06:00',
+          endTime: '14:00',
+          performance: 2,
+          recordedAt: '08:00',
+        },
+      },
+    };
+    expect(migrateOldData(current, 'pakaste')).toEqual(current);
+    expect(migrateOldData(migrateOldData({ '2024-05-02': old }, 'kv1'), 'pakaste')).toEqual(
+      migrateOldData({ '2024-05-02': old }, 'kv1')
+    );
+  });
+});
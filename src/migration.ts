@@ -1,26 +1,74 @@
 // migration.ts
-import { DailyData, DateData } from './utils';
+import { Absence, DailyData, DateData, WorkEntry } from './utils';
+import { LEGACY_MODE_CODES } from './workCodes';
+
+/**
+ * Converts the old single tuntikortti total (in hours) to an itemised log with
+ * one "muu" item. A saved total was never deducted from the hours, since
+ * deducting used to reset it.
+ */
+const migrateTuntikortti = (entry: WorkEntry & { tuntikortti?: number }): WorkEntry => {
+  const { tuntikortti, ...rest } = entry;
+  if (typeof tuntikortti !== 'number' || rest.tuntikorttiItems) {
+    return rest;
+  }
+  if (tuntikortti <= 0) {
+    return rest;
+  }
+  return {
+    ...rest,
+    tuntikorttiItems: [{ id: 1, minutes: Math.round(tuntikortti * 60), reason: 'muu' }],
+  };
+};
+
+/**
+ * Converts a day with the fixed "normal" and "forklift" slots to a list of
+ * entries tagged with the matching work codes.
+ */
+const migrateModeSlots = (day: { normal?: DateData; forklift?: DateData; absence?: Absence }): DailyData => {
+  const { normal, forklift, ...rest } = day;
+  const entries: WorkEntry[] = [];
+  Object.entries({ normal, forklift }).forEach(([mode, entry]) => {
+    if (entry) {
+      entries.push({ ...entry, id: entries.length + 1, code: LEGACY_MODE_CODES[mode] });
+    }
+  });
+  return { ...rest, ...(entries.length > 0 && { entries }) };
+};
 
 /**
  * Migrates old data format to the new DailyData format.
  *
- * If an entry is in the old format (i.e. it has a "performance" property directly and no "normal" property),
- * it wraps that entry in an object under the "normal" key.
+ * If an entry is in the oldest format (i.e. it has a "performance" property directly),
+ * it becomes a single entry under the default work code. Days with the fixed
+ * "normal" and "forklift" slots get one entry per slot. Old tuntikortti
+ * totals are converted to itemised logs, and entries saved before warehouses
+ * were tracked per entry get the warehouse that was selected at the time.
  *
  * @param oldData - The data object loaded from localForage.
+ * @param defaultWarehouse - The stored warehouse selection.
  * @returns A new data object with the old entries migrated to the new format.
  */
-export const migrateOldData = (oldData: { [key: string]: any }): { [key: string]: DailyData } => {
+export const migrateOldData = (
+  oldData: { [key: string]: any },
+  defaultWarehouse: string
+): { [key: string]: DailyData } => {
   const newData: { [key: string]: DailyData } = {};
   for (const dateStr in oldData) {
     if (oldData.hasOwnProperty(dateStr)) {
       const entry = oldData[dateStr];
-      // If entry is not already in the new format (i.e. does not have a "normal" property)
-      if (entry && entry.performance !== undefined && entry.normal === undefined) {
-        newData[dateStr] = { normal: entry as DateData };
-      } else {
-        newData[dateStr] = entry as DailyData;
-      }
+      const day: DailyData =
+        entry && entry.performance !== undefined && entry.normal === undefined
+          ? migrateModeSlots({ normal: entry })
+          : entry && entry.entries === undefined && entry.checkpoint === undefined
+          ? migrateModeSlots(entry)
+          : (entry as DailyData);
+      newData[dateStr] = {
+        ...day,
+        ...(day.entries && {
+          entries: day.entries.map((e) => ({ ...migrateTuntikortti(e), warehouse: e.warehouse ?? defaultWarehouse })),
+        }),
+      };
     }
   }
   return newData;
@@ -0,0 +1,138 @@
+// pace.test.ts
+import { describe, expect, it } from 'vitest';
+import { DailyData, ShiftCheckpoint, toDateKey } from './utils';
+import {
+  checkpointToEntry,
+  findOpenCheckpoint,
+  getPaceTargets,
+  getShiftGoalPercentages,
+  getShiftProgress,
+  getShiftStartDate,
+} from './pace';
+
+const night: ShiftCheckpoint = {
+  code: '0591',
+  warehouse: 'pakaste',
+  startTime: '21:45',
+  endTime: '05:45',
+  performance: 3,
+  recordedAt: '01:45',
+};
+const morning: ShiftCheckpoint = { ...night, startTime: '06:00', endTime: '14:00', recordedAt: '10:00' };
+
+describe('getShiftStartDate', () => {
+  it('keeps a night shift on its start date past midnight', () => {
+    expect(toDateKey(getShiftStartDate('21:45', '05:45', new Date(2025, 2, 1, 22, 0)))).toBe('2025-03-01');
+    expect(toDateKey(getShiftStartDate('21:45', '05:45', new Date(2025, 2, 2, 1, 0)))).toBe('2025-03-01');
+    expect(toDateKey(getShiftStartDate('21:45', '05:45', new Date(2025, 2, 2, 6, 10)))).toBe('2025-03-01');
+  });
+
+  it('crosses month and year boundaries', () => {
+    expect(toDateKey(getShiftStartDate('21:45', '05:45', new Date(2025, 2, 1, 2, 0)))).toBe('2025-02-28');
+    expect(toDateKey(getShiftStartDate('22:00', '06:00', new Date(2025, 0, 1, 3, 0)))).toBe('2024-12-31');
+  });
+
+  it('puts a reading taken just before a night shift on that day', () => {
+    expect(toDateKey(getShiftStartDate('21:45', '05:45', new Date(2025, 2, 1, 21, 30)))).toBe('2025-03-01');
+  });
+
+  it('keeps day shifts on the current date', () => {
+    expect(toDateKey(getShiftStartDate('06:00', '14:00', new Date(2025, 2, 1, 1, 0)))).toBe('2025-03-01');
+  });
+});
+
+describe('findOpenCheckpoint', () => {
+  it("prefers today's checkpoint", () => {
+    const data: { [key: string]: DailyData } = {
+      '2025-03-01': { checkpoint: night },
+      '2025-03-02': { checkpoint: morning },
+    };
+    expect(findOpenCheckpoint(data, '2025-03-02')).toEqual({ dateKey: '2025-03-02', checkpoint: morning });
+  });
+
+  it("finds yesterday's night shift after midnight", () => {
+    expect(findOpenCheckpoint({ '2025-02-28': { checkpoint: night } }, '2025-03-01')).toEqual({
+      dateKey: '2025-02-28',
+      checkpoint: night,
+    });
+  });
+
+  it("leaves yesterday's day shift behind", () => {
+    expect(findOpenCheckpoint({ '2025-02-28': { checkpoint: morning } }, '2025-03-01')).toBeUndefined();
+  });
+});
+
+describe('getShiftProgress', () => {
+  it('measures a night shift across midnight', () => {
+    const progress = getShiftProgress(night);
+    expect(progress.totalHours).toBe(8);
+    expect(progress.effectiveTotal).toBe(7.25);
+    expect(progress.remainingHours).toBe(4);
+    expect(progress.remainingEffective).toBeCloseTo(3.625);
+  });
+
+  it('counts a reading before midnight', () => {
+    expect(getShiftProgress({ ...night, recordedAt: '23:45' }).remainingHours).toBe(6);
+  });
+
+  it('stops at the end of the shift', () => {
+    expect(getShiftProgress({ ...morning, recordedAt: '15:00' }).remainingHours).toBe(0);
+    expect(getShiftProgress({ ...morning, recordedAt: '06:00' }).remainingHours).toBe(8);
+  });
+
+  it('uses the shift type recorded on the checkpoint', () => {
+    expect(getShiftProgress({ ...night, freeDay: true }).effectiveTotal).toBeCloseTo(7.736);
+  });
+});
+
+describe('getPaceTargets', () => {
+  it('spreads what is left over the remaining effective hours', () => {
+    const [target] = getPaceTargets(night, [{ label: '100 %', percentage: 100 }]);
+    expect(target.remainingPerformance).toBeCloseTo(4.25);
+    expect(target.perHour).toBeCloseTo(4.25 / 3.625);
+  });
+
+  it('reports a reached target', () => {
+    const [target] = getPaceTargets({ ...night, performance: 8 }, [{ label: '100 %', percentage: 100 }]);
+    expect(target.remainingPerformance).toBeLessThan(0);
+    expect(target.perHour).toBe(0);
+  });
+});
+
+describe('getShiftGoalPercentages', () => {
+  it('asks the goal of a period on track', () => {
+    const percentages = getShiftGoalPercentages(100, { performance: 14.5, effectiveHours: 14.5 }, 7.25, 14.5);
+    expect(percentages.periodGoal).toBeCloseTo(100);
+    expect(percentages.instantlyToGoal).toBeCloseTo(100);
+  });
+
+  it('makes up a shortfall over the rest of the period or this shift', () => {
+    // 90 % so far.
+    const percentages = getShiftGoalPercentages(100, { performance: 13.05, effectiveHours: 14.5 }, 7.25, 7.25);
+    expect(percentages.periodGoal).toBeCloseTo(110);
+    expect(percentages.instantlyToGoal).toBeCloseTo(120);
+  });
+
+  it('follows the length of the shift in progress', () => {
+    // A 6 h shift (5.25 effective) catching up the same 1.45 shortfall needs more.
+    const percentages = getShiftGoalPercentages(100, { performance: 13.05, effectiveHours: 14.5 }, 5.25, 0);
+    expect(percentages.instantlyToGoal).toBeCloseTo(((5.25 + 1.45) / 5.25) * 100);
+  });
+});
+
+describe('checkpointToEntry', () => {
+  it('saves the shift with its hours, flags and shift definition', () => {
+    expect(checkpointToEntry({ ...night, freeDay: true, workShift: 'night' }, 9.5, 42)).toEqual({
+      id: 42,
+      code: '0591',
+      warehouse: 'pakaste',
+      performance: 9.5,
+      hours: 8,
+      overtime: false,
+      freeDay: true,
+      workShift: 'night',
+      startTime: '21:45',
+      endTime: '05:45',
+    });
+  });
+});
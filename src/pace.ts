@@ -0,0 +1,145 @@
+// pace.ts
+import { DailyData, ShiftCheckpoint, WorkEntry, effectiveHours, toDateKey } from './utils';
+import { HourRuleset, defaultHourRules } from './hourRules';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const toClockTime = (d: Date): string =>
+  `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+
+/**
+ * The date a shift with the given times started on, as seen at `now`. A shift
+ * that crosses midnight belongs to the previous day until halfway from its end
+ * to its next start, so readings after midnight stay on the shift's own date.
+ */
+export const getShiftStartDate = (startTime: string, endTime: string, now: Date = new Date()): Date => {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (end <= start && current < (start + end) / 2) date.setDate(date.getDate() - 1);
+  return date;
+};
+
+/**
+ * The checkpoint of the shift in progress and the date it is stored on: today's,
+ * or yesterday's if that shift crosses midnight.
+ */
+export const findOpenCheckpoint = (
+  data: { [key: string]: DailyData },
+  todayKey: string
+): { dateKey: string; checkpoint: ShiftCheckpoint } | undefined => {
+  const today = data[todayKey]?.checkpoint;
+  if (today) return { dateKey: todayKey, checkpoint: today };
+  const yesterday = new Date(todayKey + 'T00:00:00');
+  yesterday.setDate(yesterday.getDate() - 1);
+  const yesterdayKey = toDateKey(yesterday);
+  const previous = data[yesterdayKey]?.checkpoint;
+  if (previous && toMinutes(previous.endTime) <= toMinutes(previous.startTime)) {
+    return { dateKey: yesterdayKey, checkpoint: previous };
+  }
+  return undefined;
+};
+
+export interface ShiftProgress {
+  totalHours: number;
+  effectiveTotal: number;
+  // Clock hours left after the reading.
+  remainingHours: number;
+  // Effective hours left, with the break spread evenly over the shift.
+  remainingEffective: number;
+}
+
+export interface PaceTarget {
+  label: string;
+  percentage: number;
+  // Performance still needed today; zero or less once reached.
+  remainingPerformance: number;
+  // Performance needed per remaining effective hour.
+  perHour: number;
+}
+
+/**
+ * How much of the shift is left at the time of the reading. Shifts whose end
+ * is not after the start cross midnight, and so does a reading taken before
+ * the start time.
+ */
+export const getShiftProgress = (checkpoint: ShiftCheckpoint, rules: HourRuleset = defaultHourRules): ShiftProgress => {
+  const start = toMinutes(checkpoint.startTime);
+  let end = toMinutes(checkpoint.endTime);
+  if (end <= start) end += MINUTES_PER_DAY;
+  let reading = toMinutes(checkpoint.recordedAt);
+  if (reading < start) reading += MINUTES_PER_DAY;
+  const totalMinutes = end - start;
+  const remainingMinutes = Math.max(0, Math.min(totalMinutes, end - reading));
+  const totalHours = totalMinutes / 60;
+  const effectiveTotal = effectiveHours(totalHours, !!checkpoint.overtime, !!checkpoint.freeDay, true, rules);
+  return {
+    totalHours,
+    effectiveTotal,
+    remainingHours: remainingMinutes / 60,
+    remainingEffective: totalMinutes > 0 ? (effectiveTotal * remainingMinutes) / totalMinutes : 0,
+  };
+};
+
+/**
+ * The pace needed for the rest of the shift to end the day at each target
+ * percentage.
+ */
+export const getPaceTargets = (
+  checkpoint: ShiftCheckpoint,
+  targets: { label: string; percentage: number }[],
+  rules: HourRuleset = defaultHourRules
+): PaceTarget[] => {
+  const progress = getShiftProgress(checkpoint, rules);
+  return targets.map(({ label, percentage }) => {
+    const remainingPerformance = (percentage / 100) * progress.effectiveTotal - checkpoint.performance;
+    return {
+      label,
+      percentage,
+      remainingPerformance,
+      perHour: progress.remainingEffective > 0 ? Math.max(0, remainingPerformance) / progress.remainingEffective : 0,
+    };
+  });
+};
+
+/**
+ * Percentages the shift in progress needs for the period goal: spread evenly
+ * over this and the other planned shifts of the period, or reached at once by
+ * the end of this shift. Logged figures are the period's entries so far.
+ */
+export const getShiftGoalPercentages = (
+  goal: number,
+  logged: { performance: number; effectiveHours: number },
+  shiftEffective: number,
+  otherPlannedEffective: number
+): { periodGoal: number; instantlyToGoal: number } => {
+  const required = (effective: number) => (goal / 100) * (logged.effectiveHours + effective) - logged.performance;
+  const remainingEffective = shiftEffective + otherPlannedEffective;
+  return {
+    periodGoal: remainingEffective > 0 ? (required(remainingEffective) / remainingEffective) * 100 : 0,
+    instantlyToGoal: shiftEffective > 0 ? (required(shiftEffective) / shiftEffective) * 100 : 0,
+  };
+};
+
+/**
+ * The entry a finished shift is saved as, with hours from its start and end
+ * times and the shift type recorded on the checkpoint.
+ */
+export const checkpointToEntry = (checkpoint: ShiftCheckpoint, performance: number, id: number): WorkEntry => ({
+  id,
+  code: checkpoint.code,
+  warehouse: checkpoint.warehouse,
+  performance,
+  hours: getShiftProgress(checkpoint).totalHours,
+  overtime: !!checkpoint.overtime,
+  freeDay: !!checkpoint.freeDay,
+  ...(checkpoint.workShift && { workShift: checkpoint.workShift }),
+  startTime: checkpoint.startTime,
+  endTime: checkpoint.endTime,
+});
@@ -0,0 +1,105 @@
+// pay.test.ts
+import { describe, expect, it } from 'vitest';
+import { DailyData, DateData, WorkEntry } from './utils';
+import { PayConfig, estimateGrossPay, estimatePeriodGrossPay, getPeriodBonuses, overtimeHours } from './pay';
+import { getPeriodForDate } from './periods';
+import { RateTable } from './rateTables';
+import { DEFAULT_WORK_CODES } from './workCodes';
+import { DEFAULT_SUPPLEMENT_CONFIG } from './supplements';
+
+const config: PayConfig = { baseWage: 20, overtimeTier1Hours: 2 };
+
+const shift = (hours: number, flags: Partial<DateData> = {}): DateData => ({
+  performance: 0,
+  hours,
+  overtime: false,
+  freeDay: false,
+  ...flags,
+});
+
+const entry = (id: number, hours: number, performance: number): WorkEntry => ({
+  ...shift(hours),
+  id,
+  code: '0591',
+  warehouse: 'pakaste',
+  performance,
+});
+
+describe('overtimeHours', () => {
+  it('has none within a normal shift', () => {
+    expect(overtimeHours([shift(8)], config)).toEqual({ tier50: 0, tier100: 0 });
+  });
+
+  it('fills the 50 % tier before the 100 % tier', () => {
+    expect(overtimeHours([shift(9)], config)).toEqual({ tier50: 1, tier100: 0 });
+    expect(overtimeHours([shift(11)], config)).toEqual({ tier50: 2, tier100: 1 });
+  });
+
+  it('counts an overtime day from the own shift length', () => {
+    expect(overtimeHours([shift(8, { overtime: true })], config)).toEqual({ tier50: 0, tier100: 0 });
+    expect(overtimeHours([shift(12, { overtime: true })], config)).toEqual({ tier50: 2, tier100: 2 });
+  });
+
+  it('gives split-shift parts one allowance', () => {
+    expect(overtimeHours([shift(6), shift(5)], config)).toEqual({ tier50: 2, tier100: 1 });
+  });
+
+  it('pays work on a free day at 100 %', () => {
+    expect(overtimeHours([shift(8, { freeDay: true })], config)).toEqual({ tier50: 0, tier100: 8 });
+    expect(overtimeHours([shift(10), shift(3, { freeDay: true })], config)).toEqual({ tier50: 2, tier100: 3 });
+  });
+
+  it('follows the tier setting', () => {
+    expect(overtimeHours([shift(11)], { ...config, overtimeTier1Hours: 0 })).toEqual({ tier50: 0, tier100: 3 });
+  });
+});
+
+describe('estimateGrossPay', () => {
+  it('adds base wage, bonuses, overtime premiums and supplements', () => {
+    const bonuses = [{ label: 'Keräys', hours: 18, rate: 2 }];
+    const estimate = estimateGrossPay([[shift(8)], [shift(11)], []], config, bonuses, 10);
+    expect(estimate.lines.map((line) => [line.label, line.amount])).toEqual([
+      ['Tuntipalkka', 360],
+      ['Suoritepalkkio, Keräys', 36],
+      ['Ylityökorotus 50 %', 20],
+      ['Ylityökorotus 100 %', 20],
+      ['Vuorolisät', 10],
+    ]);
+    expect(estimate.total).toBe(446);
+  });
+
+  it('leaves out empty premium and supplement lines', () => {
+    const estimate = estimateGrossPay([[shift(8)]], config, [], 0);
+    expect(estimate.lines.map((line) => line.label)).toEqual(['Tuntipalkka']);
+    expect(estimate.total).toBe(150);
+  });
+});
+
+describe('getPeriodBonuses', () => {
+  const period = getPeriodForDate(new Date(2025, 2, 3));
+  const rateTables: RateTable[] = [
+    { warehouse: 'pakaste', code: '0591', validFrom: '2000-01-01', rates: { '100': 1, '110': 2.5, '120': 4 } },
+  ];
+  const data: { [key: string]: DailyData } = {
+    '2025-03-03': { entries: [entry(1, 8, 7.25)] },
+    '2025-03-04': { entries: [entry(2, 8, 8.7)] },
+    // Next period.
+    '2025-03-17': { entries: [entry(3, 8, 20)] },
+  };
+
+  it('pays the rate of the period average for the paid hours', () => {
+    const bonuses = getPeriodBonuses(data, period, { warehouse: 'pakaste', rateTables, workCodes: DEFAULT_WORK_CODES });
+    expect(bonuses).toEqual([{ warehouse: 'pakaste', code: '0591', label: 'Keräys', hours: 15, rate: 2.5 }]);
+  });
+
+  it('feeds the gross pay estimate of the period', () => {
+    const estimate = estimatePeriodGrossPay(data, period, {
+      warehouse: 'pakaste',
+      rateTables,
+      workCodes: DEFAULT_WORK_CODES,
+      payConfig: config,
+      supplementConfig: DEFAULT_SUPPLEMENT_CONFIG,
+    });
+    expect(estimate.total).toBeCloseTo(15 * 20 + 15 * 2.5);
+  });
+});
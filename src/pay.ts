@@ -0,0 +1,214 @@
+// pay.ts
+import { DailyData, DateData, WorkEntry, entryEffectiveHours, entryPaidHours, getDayEntries, toDateKey } from './utils';
+import { HourRuleset, defaultHourRules, getHourRules } from './hourRules';
+import { RateTable, findRateTable, getWarehouseLabel, rateToEuro } from './rateTables';
+import { WorkCode, WorkGroup, getWorkCodeLabel, getWorkGroups, isInWorkGroup } from './workCodes';
+import { Period, isDateInPeriod } from './periods';
+import { SupplementConfig, summarizeSupplements } from './supplements';
+
+/**
+ * The user's own wage settings. The first `overtimeTier1Hours` overtime hours
+ * of a day earn the 50 % premium and the rest the 100 % premium.
+ */
+export interface PayConfig {
+  baseWage: number; // €/h
+  overtimeTier1Hours: number;
+}
+
+export const DEFAULT_PAY_CONFIG: PayConfig = {
+  baseWage: 0,
+  overtimeTier1Hours: 2,
+};
+
+export interface OvertimeHours {
+  tier50: number;
+  tier100: number;
+}
+
+/**
+ * A performance bonus for one work code: paid hours times the €/h rate from
+ * the rate table.
+ */
+export interface PerformanceBonus {
+  label: string;
+  hours: number;
+  rate: number;
+}
+
+export interface PayLine {
+  label: string;
+  detail: string;
+  amount: number;
+}
+
+export interface PayEstimate {
+  lines: PayLine[];
+  total: number;
+}
+
+/**
+ * Splits the overtime hours of one day into the 50 % and 100 % tiers. Work on
+ * a free day is all 100 %. The other entries of the day are summed first, so
+ * split-shift parts share one allowance: the own shift is the first
+ * `overtime.minHours` on an overtime day, as in effectiveHours, and
+ * `normal.standardShiftHours` otherwise.
+ */
+export const overtimeHours = (
+  dayEntries: DateData[],
+  config: PayConfig,
+  rules: HourRuleset = defaultHourRules
+): OvertimeHours => {
+  const freeDayHours = dayEntries.filter((entry) => entry.freeDay).reduce((sum, entry) => sum + entry.hours, 0);
+  const ownShift = dayEntries.filter((entry) => !entry.freeDay);
+  const hours = ownShift.reduce((sum, entry) => sum + entry.hours, 0);
+  const allowance = ownShift.some((entry) => entry.overtime)
+    ? rules.overtime.minHours
+    : rules.normal.standardShiftHours;
+  const extra = Math.max(0, hours - allowance);
+  const tier50 = Math.min(extra, config.overtimeTier1Hours);
+  return { tier50, tier100: extra - tier50 + freeDayHours };
+};
+
+const formatHours = (hours: number): string => `${hours.toFixed(2)}h`;
+
+/**
+ * Builds the gross pay estimate for a set of days, each given as its entries:
+ * base wage for paid hours, a bonus line per work code, overtime premiums and
+ * supplements. A day's overtime follows the hour rules of its first entry.
+ */
+export const estimateGrossPay = (
+  days: DateData[][],
+  config: PayConfig,
+  bonuses: PerformanceBonus[],
+  supplementEuros: number,
+  rulesFor: (entry: DateData) => HourRuleset = () => defaultHourRules
+): PayEstimate => {
+  let baseHours = 0;
+  let tier50 = 0;
+  let tier100 = 0;
+  days.filter((dayEntries) => dayEntries.length > 0).forEach((dayEntries) => {
+    dayEntries.forEach((entry) => {
+      baseHours += entryPaidHours(entry, rulesFor(entry));
+    });
+    const overtime = overtimeHours(dayEntries, config, rulesFor(dayEntries[0]));
+    tier50 += overtime.tier50;
+    tier100 += overtime.tier100;
+  });
+
+  const lines: PayLine[] = [
+    {
+      label: 'Tuntipalkka',
+      detail: `${formatHours(baseHours)} x ${config.baseWage} €/h`,
+      amount: baseHours * config.baseWage,
+    },
+    ...bonuses.map((bonus) => ({
+      label: `Suoritepalkkio, ${bonus.label}`,
+      detail: `${formatHours(bonus.hours)} x ${bonus.rate} €/h`,
+      amount: bonus.hours * bonus.rate,
+    })),
+  ];
+  if (tier50 > 0) {
+    lines.push({
+      label: 'Ylityökorotus 50 %',
+      detail: `${formatHours(tier50)} x ${(config.baseWage * 0.5).toFixed(2)} €/h`,
+      amount: tier50 * config.baseWage * 0.5,
+    });
+  }
+  if (tier100 > 0) {
+    lines.push({
+      label: 'Ylityökorotus 100 %',
+      detail: `${formatHours(tier100)} x ${config.baseWage.toFixed(2)} €/h`,
+      amount: tier100 * config.baseWage,
+    });
+  }
+  if (supplementEuros > 0) {
+    lines.push({ label: 'Vuorolisät', detail: 'ilta- ja yölisät', amount: supplementEuros });
+  }
+  return { lines, total: lines.reduce((sum, line) => sum + line.amount, 0) };
+};
+
+/**
+ * Everything besides the calendar data that the pay of a period depends on.
+ */
+export interface PayContext {
+  // Selected warehouse, for entries saved without one.
+  warehouse: string;
+  rateTables: RateTable[];
+  workCodes: WorkCode[];
+  payConfig: PayConfig;
+  supplementConfig: SupplementConfig;
+}
+
+// The entries of each day of the period that has data.
+const getPeriodDays = (data: { [key: string]: DailyData }, period: Period): WorkEntry[][] =>
+  Object.keys(data)
+    .filter((dateString) => isDateInPeriod(new Date(dateString + 'T00:00:00'), period))
+    .map((dateString) => getDayEntries(data[dateString]));
+
+const getPeriodEntries = (data: { [key: string]: DailyData }, period: Period): WorkEntry[] =>
+  getPeriodDays(data, period).flat();
+
+/**
+ * The performance bonus of each work group in the period. Each work code earns
+ * the rate of its period average in each warehouse, from the tables in force
+ * when the period started.
+ */
+export const getPeriodBonuses = (
+  data: { [key: string]: DailyData },
+  period: Period,
+  context: Pick<PayContext, 'warehouse' | 'rateTables' | 'workCodes'>
+): (PerformanceBonus & WorkGroup)[] => {
+  const { warehouse, rateTables, workCodes } = context;
+  const periodStartKey = toDateKey(period.start);
+  const entries = getPeriodEntries(data, period);
+  const groups = getWorkGroups(entries, warehouse, workCodes);
+  const severalWarehouses = groups.some((group) => group.warehouse !== groups[0].warehouse);
+  return groups.map((group) => {
+    const rules = getHourRules(group.warehouse);
+    let hours = 0;
+    let effective = 0;
+    let performance = 0;
+    entries.filter((entry) => isInWorkGroup(entry, group, warehouse)).forEach((entry) => {
+      hours += entryPaidHours(entry, rules);
+      effective += entryEffectiveHours(entry, rules);
+      performance += entry.performance;
+    });
+    const average = effective > 0 ? Math.round((performance / effective) * 100) : 0;
+    const rate = rateToEuro(average, findRateTable(rateTables, group.warehouse, group.code, periodStartKey));
+    const label = getWorkCodeLabel(workCodes, group.code);
+    return {
+      ...group,
+      label: severalWarehouses ? `${label}, ${getWarehouseLabel(group.warehouse)}` : label,
+      hours,
+      rate,
+    };
+  });
+};
+
+/**
+ * Gross pay estimate for one period of calendar data, with the bonuses of
+ * getPeriodBonuses.
+ */
+export const estimatePeriodGrossPay = (
+  data: { [key: string]: DailyData },
+  period: Period,
+  context: PayContext
+): PayEstimate => {
+  const { warehouse, payConfig, supplementConfig } = context;
+  const rulesFor = (entry: DateData) => getHourRules(entry.warehouse ?? warehouse);
+  const days = getPeriodDays(data, period);
+  const bonuses = getPeriodBonuses(data, period, context);
+  const supplements = summarizeSupplements(days.flat(), supplementConfig);
+  return estimateGrossPay(days, payConfig, bonuses, supplements.totalEuros, rulesFor);
+};
+
+export const isValidPayConfig = (value: unknown): value is PayConfig => {
+  if (!value || typeof value !== 'object') return false;
+  const { baseWage, overtimeTier1Hours } = value as { [key: string]: unknown };
+  return (
+    typeof baseWage === 'number' &&
+    baseWage >= 0 &&
+    typeof overtimeTier1Hours === 'number' &&
+    overtimeTier1Hours >= 0
+  );
+};
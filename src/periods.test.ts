@@ -0,0 +1,147 @@
+// periods.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  PeriodModel,
+  getNextPeriod,
+  getPeriodDateKeys,
+  getPeriodForDate,
+  getPreviousPeriod,
+  isDateInPeriod,
+  isValidPeriodModel,
+} from './periods';
+import { toDateKey } from './utils';
+
+const day = (key: string) => new Date(key + 'T00:00:00');
+const dayAfter = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1);
+const bounds = (d: Date, model: PeriodModel) => {
+  const period = getPeriodForDate(d, model);
+  return [toDateKey(period.start), toDateKey(period.end)];
+};
+
+describe('getPeriodForDate', () => {
+  describe('semiMonthly', () => {
+    const model: PeriodModel = { kind: 'semiMonthly' };
+
+    it('splits the month after the 15th', () => {
+      expect(bounds(day('2025-03-15'), model)).toEqual(['2025-03-01', '2025-03-15']);
+      expect(bounds(day('2025-03-16'), model)).toEqual(['2025-03-16', '2025-03-31']);
+    });
+
+    it('ends the second half on the last day of the month', () => {
+      expect(bounds(day('2025-02-20'), model)).toEqual(['2025-02-16', '2025-02-28']);
+      expect(bounds(day('2024-02-29'), model)).toEqual(['2024-02-16', '2024-02-29']);
+    });
+
+    it('keeps the old labels', () => {
+      expect(getPeriodForDate(day('2025-03-01'), model).label).toBe('Jakso 1');
+      expect(getPeriodForDate(day('2025-03-31'), model).label).toBe('Jakso 2');
+    });
+
+    it('ignores the time of day', () => {
+      expect(bounds(new Date(2025, 2, 15, 23, 59), model)).toEqual(['2025-03-01', '2025-03-15']);
+    });
+  });
+
+  describe('weekly and biWeekly', () => {
+    it('starts weeks on the anchor weekday', () => {
+      const model: PeriodModel = { kind: 'weekly', anchor: '2025-01-06' };
+      expect(bounds(day('2025-01-06'), model)).toEqual(['2025-01-06', '2025-01-12']);
+      expect(bounds(day('2025-01-12'), model)).toEqual(['2025-01-06', '2025-01-12']);
+      expect(bounds(day('2025-01-13'), model)).toEqual(['2025-01-13', '2025-01-19']);
+    });
+
+    it('repeats backwards from the anchor', () => {
+      const model: PeriodModel = { kind: 'biWeekly', anchor: '2025-01-06' };
+      expect(bounds(day('2025-01-05'), model)).toEqual(['2024-12-23', '2025-01-05']);
+      expect(bounds(day('2024-12-22'), model)).toEqual(['2024-12-09', '2024-12-22']);
+    });
+
+    it('keeps whole days across a daylight saving change', () => {
+      const model: PeriodModel = { kind: 'weekly', anchor: '2025-03-24' };
+      expect(bounds(day('2025-03-30'), model)).toEqual(['2025-03-24', '2025-03-30']);
+      expect(bounds(day('2025-03-31'), model)).toEqual(['2025-03-31', '2025-04-06']);
+      expect(bounds(day('2025-10-27'), model)).toEqual(['2025-10-27', '2025-11-02']);
+    });
+  });
+
+  describe('custom', () => {
+    it('uses the anchor and length', () => {
+      const model: PeriodModel = { kind: 'custom', anchor: '2025-01-10', lengthDays: 21 };
+      expect(bounds(day('2025-01-10'), model)).toEqual(['2025-01-10', '2025-01-30']);
+      expect(bounds(day('2025-01-31'), model)).toEqual(['2025-01-31', '2025-02-20']);
+      expect(bounds(day('2025-01-09'), model)).toEqual(['2024-12-20', '2025-01-09']);
+    });
+
+    it('rounds the length and keeps it at least one day', () => {
+      expect(bounds(day('2025-01-12'), { kind: 'custom', anchor: '2025-01-10', lengthDays: 2.6 })).toEqual([
+        '2025-01-10',
+        '2025-01-12',
+      ]);
+      expect(bounds(day('2025-01-12'), { kind: 'custom', anchor: '2025-01-10', lengthDays: 0 })).toEqual([
+        '2025-01-12',
+        '2025-01-12',
+      ]);
+    });
+  });
+});
+
+describe('getPreviousPeriod and getNextPeriod', () => {
+  it.each<PeriodModel>([
+    { kind: 'semiMonthly' },
+    { kind: 'weekly', anchor: '2025-01-06' },
+    { kind: 'biWeekly', anchor: '2025-01-06' },
+    { kind: 'custom', anchor: '2025-01-10', lengthDays: 10 },
+  ])('walks adjacent periods without gaps ($kind)', (model) => {
+    const period = getPeriodForDate(day('2025-02-15'), model);
+    const previous = getPreviousPeriod(period, model);
+    const next = getNextPeriod(period, model);
+    expect(toDateKey(dayAfter(previous.end))).toBe(toDateKey(period.start));
+    expect(toDateKey(dayAfter(period.end))).toBe(toDateKey(next.start));
+    expect(getNextPeriod(previous, model)).toEqual(period);
+  });
+
+  it('crosses the year boundary', () => {
+    const model: PeriodModel = { kind: 'semiMonthly' };
+    const next = getNextPeriod(getPeriodForDate(day('2024-12-20'), model), model);
+    expect(toDateKey(next.start)).toBe('2025-01-01');
+  });
+});
+
+describe('isDateInPeriod', () => {
+  const period = getPeriodForDate(day('2025-03-20'), { kind: 'semiMonthly' });
+
+  it('includes both ends whatever the time of day', () => {
+    expect(isDateInPeriod(new Date(2025, 2, 16, 0, 0), period)).toBe(true);
+    expect(isDateInPeriod(new Date(2025, 2, 31, 23, 59), period)).toBe(true);
+  });
+
+  it('excludes the days around it', () => {
+    expect(isDateInPeriod(day('2025-03-15'), period)).toBe(false);
+    expect(isDateInPeriod(day('2025-04-01'), period)).toBe(false);
+  });
+});
+
+describe('getPeriodDateKeys', () => {
+  it('lists every day of the period', () => {
+    const keys = getPeriodDateKeys(getPeriodForDate(day('2025-02-20'), { kind: 'semiMonthly' }));
+    expect(keys).toHaveLength(13);
+    expect(keys[0]).toBe('2025-02-16');
+    expect(keys[12]).toBe('2025-02-28');
+  });
+});
+
+describe('isValidPeriodModel', () => {
+  it('accepts stored models', () => {
+    expect(isValidPeriodModel({ kind: 'semiMonthly' })).toBe(true);
+    expect(isValidPeriodModel({ kind: 'weekly', anchor: '2025-01-06' })).toBe(true);
+    expect(isValidPeriodModel({ kind: 'custom', anchor: '2025-01-06', lengthDays: 20 })).toBe(true);
+  });
+
+  it('rejects broken ones', () => {
+    expect(isValidPeriodModel(null)).toBe(false);
+    expect(isValidPeriodModel({ kind: 'weekly' })).toBe(false);
+    expect(isValidPeriodModel({ kind: 'biWeekly', anchor: 'not a date' })).toBe(false);
+    expect(isValidPeriodModel({ kind: 'custom', anchor: '2025-01-06', lengthDays: 0 })).toBe(false);
+    expect(isValidPeriodModel({ kind: 'monthly' })).toBe(false);
+  });
+});
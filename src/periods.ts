@@ -0,0 +1,119 @@
+// periods.ts
+import { toDateKey, toDayNumber, getDaysBetween } from './utils';
+
+/**
+ * How the calendar is split into pay periods.
+ *
+ * - semiMonthly: 1st–15th and 16th–end of month ("Jakso 1" / "Jakso 2")
+ * - weekly / biWeekly: 7 or 14 day periods starting on the anchor date
+ * - custom: periods of lengthDays starting on the anchor date
+ *
+ * Anchors are YYYY-MM-DD strings; periods repeat both forwards and backwards
+ * from them.
+ */
+export type PeriodModel =
+  | { kind: 'semiMonthly' }
+  | { kind: 'weekly'; anchor: string }
+  | { kind: 'biWeekly'; anchor: string }
+  | { kind: 'custom'; anchor: string; lengthDays: number };
+
+export interface Period {
+  // First and last day of the period, both at local midnight.
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+export const DEFAULT_PERIOD_MODEL: PeriodModel = { kind: 'semiMonthly' };
+
+export const PERIOD_MODEL_LABELS: { [kind in PeriodModel['kind']]: string } = {
+  semiMonthly: 'Puolikuukausi (1.–15. ja 16.–loppu)',
+  weekly: 'Viikko',
+  biWeekly: 'Kaksi viikkoa',
+  custom: 'Oma jakson pituus',
+};
+
+const parseDateKey = (key: string): Date => new Date(key + 'T00:00:00');
+
+const formatShortDate = (d: Date): string => `${d.getDate()}.${d.getMonth() + 1}.`;
+
+const periodLength = (model: PeriodModel): number => {
+  switch (model.kind) {
+    case 'weekly':
+      return 7;
+    case 'biWeekly':
+      return 14;
+    case 'custom':
+      return Math.max(1, Math.round(model.lengthDays));
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Returns the pay period the given date belongs to.
+ */
+export const getPeriodForDate = (d: Date, model: PeriodModel = DEFAULT_PERIOD_MODEL): Period => {
+  if (model.kind === 'semiMonthly') {
+    const year = d.getFullYear();
+    const month = d.getMonth();
+    const firstHalf = d.getDate() <= 15;
+    return {
+      start: new Date(year, month, firstHalf ? 1 : 16),
+      end: firstHalf ? new Date(year, month, 15) : new Date(year, month + 1, 0),
+      label: firstHalf ? 'Jakso 1' : 'Jakso 2',
+    };
+  }
+  const length = periodLength(model);
+  const anchor = parseDateKey(model.anchor);
+  const offset = Math.floor((toDayNumber(d) - toDayNumber(anchor)) / length) * length;
+  const start = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + offset);
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + length - 1);
+  return {
+    start,
+    end,
+    label: `Jakso ${formatShortDate(start)}–${formatShortDate(end)}${end.getFullYear()}`,
+  };
+};
+
+/**
+ * Returns the period that ends the day before the given one starts.
+ */
+export const getPreviousPeriod = (period: Period, model: PeriodModel = DEFAULT_PERIOD_MODEL): Period =>
+  getPeriodForDate(
+    new Date(period.start.getFullYear(), period.start.getMonth(), period.start.getDate() - 1),
+    model
+  );
+
+/**
+ * Returns the period that starts the day after the given one ends.
+ */
+export const getNextPeriod = (period: Period, model: PeriodModel = DEFAULT_PERIOD_MODEL): Period =>
+  getPeriodForDate(new Date(period.end.getFullYear(), period.end.getMonth(), period.end.getDate() + 1), model);
+
+/**
+ * True if the date (time of day ignored) falls within the period.
+ */
+export const isDateInPeriod = (d: Date, period: Period): boolean => {
+  const day = toDayNumber(d);
+  return day >= toDayNumber(period.start) && day <= toDayNumber(period.end);
+};
+
+/**
+ * Lists every day of the period as a local-midnight Date.
+ */
+export const getPeriodDays = (period: Period): Date[] => getDaysBetween(period.start, period.end);
+
+/**
+ * Lists the calendarData keys of the period's days.
+ */
+export const getPeriodDateKeys = (period: Period): string[] => getPeriodDays(period).map(toDateKey);
+
+export const isValidPeriodModel = (model: unknown): model is PeriodModel => {
+  if (!model || typeof model !== 'object') return false;
+  const { kind, anchor, lengthDays } = model as { [key: string]: unknown };
+  if (kind === 'semiMonthly') return true;
+  const hasAnchor = typeof anchor === 'string' && !isNaN(parseDateKey(anchor).getTime());
+  if (kind === 'weekly' || kind === 'biWeekly') return hasAnchor;
+  return kind === 'custom' && hasAnchor && typeof lengthDays === 'number' && lengthDays >= 1;
+};
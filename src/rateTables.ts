@@ -0,0 +1,163 @@
+// rateTables.ts
+import bundledRateTables from './rateTables.json';
+import { LEGACY_MODE_CODES } from './workCodes';
+
+/**
+ * Maps a rounded performance percentage (as a string key) to a bonus in €/h.
+ */
+export type RateMap = { [percentage: string]: number };
+
+export interface RateTable {
+  warehouse: string;
+  // Work code the table applies to, e.g. 0591.
+  code: string;
+  // First day (YYYY-MM-DD) this version of the table is in force.
+  validFrom: string;
+  rates: RateMap;
+}
+
+// Tables without a date apply to everything before the first dated version.
+export const BASELINE_VALID_FROM = '2000-01-01';
+
+export const WAREHOUSES: { id: string; label: string }[] = [
+  { id: 'pakaste', label: 'Pakaste' },
+  { id: 'kv1', label: 'KV1' },
+  { id: 'kv2', label: 'KV2' },
+];
+
+export const getWarehouseLabel = (warehouse: string): string =>
+  WAREHOUSES.find((w) => w.id === warehouse)?.label ?? warehouse;
+
+// Tables shipped with the app. KV1/KV2 have none until someone imports them.
+export const defaultRateTables: RateTable[] = bundledRateTables as RateTable[];
+
+const isSameTable = (a: RateTable, b: RateTable): boolean =>
+  a.warehouse === b.warehouse && a.code === b.code && a.validFrom === b.validFrom;
+
+/**
+ * Returns every version for the given warehouse and work code, oldest first.
+ */
+export const getRateTableVersions = (
+  tables: RateTable[],
+  warehouse: string,
+  code: string
+): RateTable[] =>
+  tables
+    .filter((t) => t.warehouse === warehouse && t.code === code)
+    .sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+
+/**
+ * Returns the table that was in force for the given warehouse and work code on
+ * the given day (YYYY-MM-DD). Without a day, the newest version is returned.
+ */
+export const findRateTable = (
+  tables: RateTable[],
+  warehouse: string,
+  code: string,
+  day?: string
+): RateTable | undefined =>
+  getRateTableVersions(tables, warehouse, code)
+    .filter((t) => day === undefined || t.validFrom <= day)
+    .pop();
+
+export const hasRateTables = (tables: RateTable[], warehouse: string): boolean =>
+  tables.some((t) => t.warehouse === warehouse && Object.keys(t.rates).length > 0);
+
+const getRateKeys = (table: RateTable): number[] =>
+  Object.keys(table.rates)
+    .map(Number)
+    .filter((k) => !isNaN(k))
+    .sort((a, b) => a - b);
+
+/**
+ * Converts a performance percentage to €/h using the given table.
+ *
+ * The percentage is rounded and clamped to the range the table covers. If the
+ * table has a gap, the closest lower percentage is used.
+ */
+export const rateToEuro = (percentage: number, table: RateTable | undefined): number => {
+  if (!table) return 0;
+  const keys = getRateKeys(table);
+  if (keys.length === 0) return 0;
+  const clamped = Math.max(keys[0], Math.min(keys[keys.length - 1], Math.round(percentage)));
+  const key = keys.filter((k) => k <= clamped).pop() ?? keys[0];
+  return table.rates[String(key)];
+};
+
+/**
+ * The inverse of rateToEuro: the lowest percentage in the table that pays at
+ * least the given €/h, or undefined when no percentage does.
+ */
+export const euroToRate = (euroPerHour: number, table: RateTable | undefined): number | undefined => {
+  if (!table) return undefined;
+  return getRateKeys(table).find((k) => table.rates[String(k)] >= euroPerHour);
+};
+
+/**
+ * Overlays user tables on top of the bundled ones. A user table replaces the
+ * bundled table with the same warehouse, code and validity date; other
+ * versions are kept as history.
+ */
+export const mergeRateTables = (base: RateTable[], overrides: RateTable[]): RateTable[] => {
+  const merged = base.filter((b) => !overrides.some((o) => isSameTable(o, b)));
+  return [...merged, ...overrides];
+};
+
+/**
+ * Replaces the tables in `tables` that share warehouse, code and date with
+ * one of `updates`, and appends the rest.
+ */
+export const upsertRateTables = (tables: RateTable[], updates: RateTable[]): RateTable[] => [
+  ...tables.filter((t) => !updates.some((u) => isSameTable(u, t))),
+  ...updates,
+];
+
+export const removeRateTable = (tables: RateTable[], table: RateTable): RateTable[] =>
+  tables.filter((t) => !isSameTable(t, table));
+
+/**
+ * Tables saved before work codes name a "normal" or "forklift" mode instead of
+ * a code; those get the matching code.
+ */
+export const withWorkCode = (table: { [key: string]: unknown }): { [key: string]: unknown } => {
+  if (table.code !== undefined || typeof table.mode !== 'string') return table;
+  const { mode, ...rest } = table;
+  return { ...rest, code: LEGACY_MODE_CODES[table.mode] ?? mode };
+};
+
+/**
+ * Validates imported JSON. Accepts either a single table or an array of tables
+ * in the same format as rateTables.json. A missing validFrom falls back to
+ * BASELINE_VALID_FROM. Throws with a user-facing message.
+ */
+export const parseRateTables = (input: unknown): RateTable[] => {
+  const list = Array.isArray(input) ? input : [input];
+  return list.map((item) => {
+    if (!item || typeof item !== 'object') {
+      throw new Error('Virheellinen taulukko.');
+    }
+    const { warehouse, code, validFrom = BASELINE_VALID_FROM, rates } = withWorkCode(item as { [key: string]: unknown });
+    if (typeof warehouse !== 'string' || !WAREHOUSES.some((w) => w.id === warehouse)) {
+      throw new Error(`Tuntematon varasto: ${String(warehouse)}`);
+    }
+    if (typeof code !== 'string' || code.trim() === '') {
+      throw new Error(`Virheellinen työkoodi: ${String(code)}`);
+    }
+    if (typeof validFrom !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(validFrom)) {
+      throw new Error(`Virheellinen voimaantulopäivä: ${String(validFrom)}`);
+    }
+    if (!rates || typeof rates !== 'object') {
+      throw new Error('Taulukosta puuttuu rates-kenttä.');
+    }
+    const parsedRates: RateMap = {};
+    Object.entries(rates as { [key: string]: unknown }).forEach(([pct, euro]) => {
+      const pctNumber = Number(pct);
+      const euroNumber = Number(euro);
+      if (!Number.isInteger(pctNumber) || isNaN(euroNumber) || euroNumber < 0) {
+        throw new Error(`Virheellinen rivi: ${pct} → ${String(euro)}`);
+      }
+      parsedRates[String(pctNumber)] = euroNumber;
+    });
+    return { warehouse, code, validFrom, rates: parsedRates };
+  });
+};
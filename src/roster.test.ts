@@ -0,0 +1,69 @@
+// roster.test.ts
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ROSTER, Roster, getPlannedHours, isValidRoster } from './roster';
+import { HolidayException } from './holidays';
+
+const day = (key: string) => new Date(key + 'T00:00:00');
+
+// Two weeks starting on Monday 6.1.2025: long days the first week, short the second.
+const roster: Roster = {
+  anchor: '2025-01-06',
+  pattern: [10, 10, 10, 0, 0, 0, 0, 6, 6, 6, 6, 6, 0, 0],
+  shifts: [
+    { date: '2025-01-09', hours: 4 },
+    { date: '2025-01-14', hours: 0 },
+  ],
+};
+
+describe('getPlannedHours', () => {
+  it('repeats the pattern from the anchor', () => {
+    expect(getPlannedHours(day('2025-01-07'), roster, 8)).toBe(10);
+    expect(getPlannedHours(day('2025-01-13'), roster, 8)).toBe(6);
+    expect(getPlannedHours(day('2025-01-21'), roster, 8)).toBe(10);
+    expect(getPlannedHours(day('2025-01-18'), roster, 8)).toBe(0);
+  });
+
+  it('repeats the pattern backwards from the anchor', () => {
+    expect(getPlannedHours(day('2024-12-30'), roster, 8)).toBe(6);
+    expect(getPlannedHours(day('2024-12-23'), roster, 8)).toBe(10);
+  });
+
+  it('lets individual shifts override the pattern', () => {
+    expect(getPlannedHours(day('2025-01-09'), roster, 8)).toBe(4);
+    expect(getPlannedHours(day('2025-01-14'), roster, 8)).toBe(0);
+  });
+
+  it('keeps public holidays off unless a shift or exception says otherwise', () => {
+    const holidayRoster: Roster = { ...roster, anchor: '2024-12-30' };
+    // Tue 31.12. is a workday, Wed 1.1. New Year's Day.
+    expect(getPlannedHours(day('2024-12-31'), holidayRoster, 8)).toBe(10);
+    expect(getPlannedHours(day('2025-01-01'), holidayRoster, 8)).toBe(0);
+    const exceptions: HolidayException[] = [{ date: '2025-01-01', name: 'Uudenvuodenpäivä', type: 'workday' }];
+    expect(getPlannedHours(day('2025-01-01'), holidayRoster, 8, exceptions)).toBe(10);
+    const withShift: Roster = { ...holidayRoster, shifts: [{ date: '2025-01-01', hours: 5 }] };
+    expect(getPlannedHours(day('2025-01-01'), withShift, 8)).toBe(5);
+  });
+
+  it('gives workdays without hours of their own the contract length', () => {
+    expect(getPlannedHours(day('2025-01-07'), DEFAULT_ROSTER, 6)).toBe(6);
+    expect(getPlannedHours(day('2025-01-11'), DEFAULT_ROSTER, 6)).toBe(0);
+    const mixed: Roster = { ...roster, pattern: [null, 4, 0, 0, 0, 0, 0] };
+    expect(getPlannedHours(day('2025-01-13'), mixed, 6)).toBe(6);
+    expect(getPlannedHours(day('2025-01-14'), mixed, 6)).toBe(0);
+    expect(getPlannedHours(day('2025-01-21'), mixed, 6)).toBe(4);
+  });
+
+  it('plans nothing with an empty pattern', () => {
+    expect(getPlannedHours(day('2025-01-07'), { ...roster, pattern: [], shifts: [] }, 8)).toBe(0);
+  });
+});
+
+describe('isValidRoster', () => {
+  it('accepts stored rosters and rejects broken ones', () => {
+    expect(isValidRoster(roster)).toBe(true);
+    expect(isValidRoster(DEFAULT_ROSTER)).toBe(true);
+    expect(isValidRoster({ ...roster, pattern: [8, -1] })).toBe(false);
+    expect(isValidRoster({ ...roster, shifts: [{ date: '2025-01-09' }] })).toBe(false);
+    expect(isValidRoster({ anchor: '2025-01-06' })).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+// roster.ts
+import { HolidayException, isHoliday } from './holidays';
+import { toDateKey, toDayNumber } from './utils';
+
+/**
+ * A single planned day that overrides the repeating pattern. Zero hours marks
+ * a planned day off.
+ */
+export interface PlannedShift {
+  date: string; // YYYY-MM-DD
+  hours: number;
+}
+
+/**
+ * The user's work roster: a repeating pattern of planned hours (one value per
+ * day, starting on `anchor`) plus individual planned shifts. A null in the
+ * pattern is a workday of the contract's shift length.
+ */
+export interface Roster {
+  anchor: string;
+  pattern: (number | null)[];
+  shifts: PlannedShift[];
+}
+
+// Monday to Friday, each a contract shift.
+export const DEFAULT_ROSTER: Roster = {
+  anchor: '2024-01-01',
+  pattern: [null, null, null, null, null, 0, 0],
+  shifts: [],
+};
+
+/**
+ * Planned hours for the given day. An individual planned shift always wins;
+ * otherwise holidays are off and the pattern decides, with `shiftHours` for
+ * workdays without hours of their own.
+ */
+export const getPlannedHours = (
+  d: Date,
+  roster: Roster,
+  shiftHours: number,
+  holidayExceptions: HolidayException[] = []
+): number => {
+  const planned = roster.shifts.find((s) => s.date === toDateKey(d));
+  if (planned) return planned.hours;
+  if (isHoliday(d, holidayExceptions) || roster.pattern.length === 0) return 0;
+  const length = roster.pattern.length;
+  const offset = toDayNumber(d) - toDayNumber(new Date(roster.anchor + 'T00:00:00'));
+  return roster.pattern[((offset % length) + length) % length] ?? shiftHours;
+};
+
+export const isValidRoster = (value: unknown): value is Roster => {
+  if (!value || typeof value !== 'object') return false;
+  const { anchor, pattern, shifts } = value as { [key: string]: unknown };
+  return (
+    typeof anchor === 'string' &&
+    Array.isArray(pattern) &&
+    pattern.every((h) => h === null || (typeof h === 'number' && h >= 0)) &&
+    Array.isArray(shifts) &&
+    shifts.every((s) => s && typeof s.date === 'string' && typeof s.hours === 'number')
+  );
+};
@@ -0,0 +1,80 @@
+// shiftDefinitions.ts
+import { ContractSettings } from './contract';
+
+/**
+ * A named shift of the user's workplace, e.g. the morning shift. Times are
+ * "HH:mm"; a shift whose end is not after its start runs past midnight.
+ */
+export interface ShiftDefinition {
+  id: string;
+  name: string;
+  start: string;
+  end: string;
+  // Hours a new entry of this shift is prefilled with; without them the
+  // contract's shift length applies.
+  plannedHours?: number;
+}
+
+export const DEFAULT_SHIFT_DEFINITIONS: ShiftDefinition[] = [
+  { id: 'morning', name: 'Aamu', start: '05:45', end: '13:45' },
+  { id: 'evening', name: 'Ilta', start: '13:45', end: '21:45' },
+  { id: 'night', name: 'Yö', start: '21:45', end: '05:45' },
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Entries are often made right after the shift, so it still counts as ongoing for a while.
+const LATE_ENTRY_MINUTES = 30;
+
+const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/**
+ * The shift going on at the given time: the first one whose start to end,
+ * plus half an hour, contains it. Between shifts, the next one to start.
+ */
+export const detectShift = (definitions: ShiftDefinition[], now: Date = new Date()): ShiftDefinition | undefined => {
+  const current = now.getHours() * 60 + now.getMinutes();
+  const sinceStart = (definition: ShiftDefinition) =>
+    (current - toMinutes(definition.start) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const length = (definition: ShiftDefinition) =>
+    (toMinutes(definition.end) - toMinutes(definition.start) + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  const ongoing = definitions.find((d) => sinceStart(d) < length(d) + LATE_ENTRY_MINUTES);
+  if (ongoing) return ongoing;
+  return [...definitions].sort(
+    (a, b) => (MINUTES_PER_DAY - sinceStart(a)) % MINUTES_PER_DAY - (MINUTES_PER_DAY - sinceStart(b)) % MINUTES_PER_DAY
+  )[0];
+};
+
+/**
+ * Length of a new entry of the shift: its own planned hours, or the contract's
+ * shift length.
+ */
+export const getShiftHours = (definition: ShiftDefinition, contract: ContractSettings): number =>
+  definition.plannedHours ?? contract.shiftHours;
+
+export const getShiftName = (definitions: ShiftDefinition[], id: string): string =>
+  definitions.find((d) => d.id === id)?.name ?? id;
+
+export const isValidShiftDefinitions = (value: unknown): value is ShiftDefinition[] => {
+  const timePattern = /^\d{2}:\d{2}$/;
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (d) =>
+        d &&
+        typeof d.id === 'string' &&
+        typeof d.name === 'string' &&
+        d.name !== '' &&
+        typeof d.start === 'string' &&
+        timePattern.test(d.start) &&
+        typeof d.end === 'string' &&
+        timePattern.test(d.end) &&
+        (d.plannedHours === undefined ||
+          (typeof d.plannedHours === 'number' && d.plannedHours > 0 && d.plannedHours <= 16))
+    )
+  );
+};
@@ -0,0 +1,100 @@
+// shiftSegments.test.ts
+import { describe, expect, it } from 'vitest';
+import { ShiftSegment } from './utils';
+import { entriesToSegments, getSegmentHours, segmentsToEntries, validateSegments } from './shiftSegments';
+
+const segment = (start: string, end: string, code = '0591', performance = 0): ShiftSegment => ({
+  start,
+  end,
+  code,
+  performance,
+});
+
+const shift = { overtime: false, freeDay: false, warehouse: 'pakaste', tuntikorttiItems: [] };
+
+describe('getSegmentHours', () => {
+  it('counts segments across midnight', () => {
+    const segments = [segment('06:00', '10:30'), segment('22:00', '02:00'), segment('', '')];
+    expect(getSegmentHours(segments)).toEqual([4.5, 4, 0]);
+  });
+});
+
+describe('validateSegments', () => {
+  it('accepts back-to-back segments over midnight', () => {
+    expect(validateSegments([segment('22:00', '02:00'), segment('02:00', '06:00', '0721')])).toEqual([]);
+  });
+
+  it('asks for missing times', () => {
+    expect(validateSegments([segment('06:00', '')])).toHaveLength(1);
+  });
+
+  it('finds empty and overlapping segments', () => {
+    expect(validateSegments([segment('06:00', '06:00')])).toEqual(['Jakso 06:00–06:00 on tyhjä.']);
+    expect(validateSegments([segment('06:00', '10:00'), segment('09:00', '12:00', '0721')])).toEqual([
+      'Jaksot 06:00–10:00 ja 09:00–12:00 menevät päällekkäin.',
+    ]);
+  });
+
+  it('limits the shift to 16 hours', () => {
+    expect(validateSegments([segment('06:00', '16:00'), segment('16:00', '23:00', '0721')])).toEqual([
+      'Vuoron tunnit ylittävät 16 tuntia (17.00 h).',
+    ]);
+  });
+});
+
+describe('segmentsToEntries', () => {
+  it('makes one entry per code with the shift flags', () => {
+    const entries = segmentsToEntries(
+      [segment('06:00', '10:00', '0591', 3), segment('10:00', '14:00', '0721', 2)],
+      { ...shift, tuntikorttiItems: [{ id: 1, minutes: 10, reason: 'muu' }] },
+      100
+    );
+    expect(entries.map((e) => [e.id, e.shiftId, e.code, e.hours, e.performance, e.startTime, e.endTime])).toEqual([
+      [100, 100, '0591', 4, 3, '06:00', '10:00'],
+      [101, 100, '0721', 4, 2, '10:00', '14:00'],
+    ]);
+    expect(entries[0].tuntikorttiItems).toHaveLength(1);
+    expect(entries[1]).not.toHaveProperty('tuntikorttiItems');
+  });
+
+  it('takes the break from the segment running at mid-shift', () => {
+    const entries = segmentsToEntries([segment('06:00', '09:00'), segment('09:00', '14:00', '0721')], shift, 1);
+    expect(entries.map((e) => e.breakDeduction)).toEqual([false, true]);
+  });
+
+  it('leaves the break in a long enough gap', () => {
+    const entries = segmentsToEntries([segment('06:00', '10:00'), segment('10:30', '14:00', '0721')], shift, 1);
+    expect(entries.map((e) => e.breakDeduction)).toEqual([false, false]);
+  });
+
+  it('deducts no break on overtime or free-day shifts', () => {
+    const segments = [segment('06:00', '10:00'), segment('10:00', '14:00', '0721')];
+    const entries = segmentsToEntries(segments, { ...shift, overtime: true }, 1);
+    expect(entries.map((e) => e.breakDeduction)).toEqual([false, false]);
+  });
+
+  it('merges repeated codes and spans their times', () => {
+    const entries = segmentsToEntries(
+      [
+        segment('06:00', '09:00', '0591', 2),
+        segment('09:00', '11:00', '0721', 1),
+        segment('11:00', '14:00', '0591', 3),
+      ],
+      shift,
+      1
+    );
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ code: '0591', hours: 6, performance: 5, startTime: '06:00', endTime: '14:00' });
+    expect(entries[0].segments).toHaveLength(2);
+  });
+
+  it('orders a night shift from its start and gathers the segments back', () => {
+    const segments = [segment('02:00', '06:00', '0721'), segment('22:00', '02:00')];
+    const entries = segmentsToEntries([segments[1], segments[0]], shift, 1);
+    expect(entries.map((e) => [e.code, e.hours])).toEqual([
+      ['0591', 4],
+      ['0721', 4],
+    ]);
+    expect(entriesToSegments(entries)).toEqual([segments[1], segments[0]]);
+  });
+});
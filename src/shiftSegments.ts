@@ -0,0 +1,165 @@
+// shiftSegments.ts
+import { ShiftSegment, WorkEntry } from './utils';
+import { HourRuleset, defaultHourRules } from './hourRules';
+import { TuntikorttiItem } from './tuntikortti';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_SHIFT_HOURS = 16;
+
+const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+/**
+ * A segment as typed into the form, before the performance is parsed.
+ */
+export interface ShiftSegmentDraft {
+  start: string;
+  end: string;
+  code: string;
+  performance: string;
+}
+
+export const parseSegmentDrafts = (drafts: ShiftSegmentDraft[]): ShiftSegment[] =>
+  drafts.map((draft) => ({ ...draft, performance: draft.performance ? parseFloat(draft.performance) || 0 : 0 }));
+
+export const toSegmentDrafts = (segments: ShiftSegment[]): ShiftSegmentDraft[] =>
+  segments.map((segment) => ({ ...segment, performance: segment.performance ? segment.performance.toString() : '' }));
+
+/**
+ * Clock hours of each segment, in the order given; midnight crossings count.
+ */
+export const getSegmentHours = (segments: ShiftSegment[]): number[] =>
+  segments.map((segment) => {
+    if (!segment.start || !segment.end) return 0;
+    const minutes = toMinutes(segment.end) - toMinutes(segment.start);
+    return (minutes < 0 ? minutes + MINUTES_PER_DAY : minutes) / 60;
+  });
+
+interface PlacedSegment extends ShiftSegment {
+  from: number;
+  to: number;
+}
+
+/**
+ * Places the segments on one timeline in minutes from midnight of the shift's
+ * first day. The first segment starts the shift, so times earlier than its
+ * start belong to the next day, as do ends earlier than their start. Sorted
+ * by start.
+ */
+const placeSegments = (segments: ShiftSegment[]): PlacedSegment[] => {
+  if (segments.length === 0) return [];
+  const firstStart = toMinutes(segments[0].start);
+  return segments
+    .map((segment) => {
+      let from = toMinutes(segment.start);
+      if (from < firstStart) from += MINUTES_PER_DAY;
+      let to = toMinutes(segment.end) + (from >= MINUTES_PER_DAY ? MINUTES_PER_DAY : 0);
+      if (to < from) to += MINUTES_PER_DAY;
+      return { ...segment, from, to };
+    })
+    .sort((a, b) => a.from - b.from);
+};
+
+const segmentHours = (segment: PlacedSegment): number => (segment.to - segment.from) / 60;
+
+const toStored = ({ start, end, code, performance }: PlacedSegment): ShiftSegment => ({ start, end, code, performance });
+
+/**
+ * Checks the segments of a split shift and returns a message for every
+ * problem: missing times, overlapping segments and shifts over 16 hours.
+ */
+export const validateSegments = (segments: ShiftSegment[]): string[] => {
+  if (segments.some((s) => !s.start || !s.end)) {
+    return ['Anna jokaiselle jaksolle alku- ja loppuaika.'];
+  }
+  const placed = placeSegments(segments);
+  const problems: string[] = [];
+  placed.forEach((segment, i) => {
+    if (segment.to === segment.from) {
+      problems.push(`Jakso ${segment.start}–${segment.end} on tyhjä.`);
+    }
+    const previous = placed[i - 1];
+    if (previous && segment.from < previous.to) {
+      problems.push(
+        `Jaksot ${previous.start}–${previous.end} ja ${segment.start}–${segment.end} menevät päällekkäin.`
+      );
+    }
+  });
+  const total = placed.reduce((sum, segment) => sum + segmentHours(segment), 0);
+  if (total > MAX_SHIFT_HOURS) {
+    problems.push(`Vuoron tunnit ylittävät ${MAX_SHIFT_HOURS} tuntia (${total.toFixed(2)} h).`);
+  }
+  return problems;
+};
+
+/**
+ * Turns a split shift into one entry per work code. Hours come from the
+ * segment times. A shift long enough for a break either took it in a gap
+ * between segments, or loses it from the segment running at mid-shift.
+ */
+export const segmentsToEntries = (
+  segments: ShiftSegment[],
+  shift: {
+    overtime: boolean;
+    freeDay: boolean;
+    warehouse: string;
+    workShift?: string;
+    tuntikorttiItems: TuntikorttiItem[];
+  },
+  shiftId: number,
+  rules: HourRuleset = defaultHourRules
+): WorkEntry[] => {
+  const placed = placeSegments(segments);
+  if (placed.length === 0) return [];
+  const total = placed.reduce((sum, segment) => sum + segmentHours(segment), 0);
+  const needsBreak = !shift.overtime && !shift.freeDay && total >= rules.normal.breakThresholdHours;
+  const breakInGap = placed.some(
+    (segment, i) => i > 0 && (segment.from - placed[i - 1].to) / 60 >= rules.paidHours.breakDeduction
+  );
+  const midShift = (placed[0].from + placed[placed.length - 1].to) / 2;
+  const breakSegment =
+    needsBreak && !breakInGap ? placed.find((s) => s.from <= midShift && midShift < s.to) ?? placed[0] : undefined;
+
+  const entries: WorkEntry[] = [];
+  placed.forEach((segment) => {
+    const stored = toStored(segment);
+    const existing = entries.find((e) => e.code === segment.code);
+    if (existing) {
+      existing.hours += segmentHours(segment);
+      existing.performance += segment.performance;
+      existing.breakDeduction = existing.breakDeduction || segment === breakSegment;
+      existing.segments = [...(existing.segments ?? []), stored];
+      return;
+    }
+    entries.push({
+      id: shiftId + entries.length,
+      shiftId,
+      code: segment.code,
+      performance: segment.performance,
+      hours: segmentHours(segment),
+      overtime: shift.overtime,
+      freeDay: shift.freeDay,
+      warehouse: shift.warehouse,
+      ...(shift.workShift && { workShift: shift.workShift }),
+      startTime: segment.start,
+      endTime: segment.end,
+      breakDeduction: segment === breakSegment,
+      segments: [stored],
+      // Time-card items belong to the shift; keep them on its first entry.
+      ...(entries.length === 0 && { tuntikorttiItems: shift.tuntikorttiItems }),
+    });
+  });
+  // Start and end of each entry span all of its segments.
+  return entries.map((entry) => {
+    const own = entry.segments ?? [];
+    return { ...entry, startTime: own[0].start, endTime: own[own.length - 1].end };
+  });
+};
+
+/**
+ * The segments of a split shift, gathered back from its entries.
+ */
+export const entriesToSegments = (entries: WorkEntry[]): ShiftSegment[] =>
+  placeSegments(entries.flatMap((entry) => entry.segments ?? [])).map(toStored);
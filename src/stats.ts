@@ -0,0 +1,163 @@
+// stats.ts
+import { DailyData, calculateAverage, entryEffectiveHours, entryPaidHours, getDayEntries, toDateKey, toDayNumber } from './utils';
+import { getHourRules } from './hourRules';
+import { Period, PeriodModel, getNextPeriod, getPeriodForDate, getPreviousPeriod, isDateInPeriod } from './periods';
+import { PayContext, getPeriodBonuses } from './pay';
+import { GoalResult, PeriodGoals, getPeriodGoalResults } from './goals';
+
+/**
+ * What the statistics page shows: days from `from` through `to` (YYYY-MM-DD)
+ * and the listed work codes, or every code when the list is empty.
+ */
+export interface StatsFilter {
+  from: string;
+  to: string;
+  codes: string[];
+}
+
+export interface ChartPoint {
+  x: number;
+  y: number;
+}
+
+export interface PeriodStats {
+  period: Period;
+  // Hours-weighted average percentage of each work code with entries.
+  averages: { [code: string]: number };
+  // Performance bonus of the included codes.
+  euros: number;
+  paidHours: number;
+}
+
+const isInRange = (dateString: string, filter: StatsFilter): boolean =>
+  dateString >= filter.from && dateString <= filter.to;
+
+const isCodeIncluded = (code: string, filter: StatsFilter): boolean =>
+  filter.codes.length === 0 || filter.codes.includes(code);
+
+/**
+ * Daily percentage of each work code, as points whose x is the day number.
+ * Days without effective hours under a code are left out of its series.
+ */
+export const getDailySeries = (
+  data: { [key: string]: DailyData },
+  filter: StatsFilter,
+  defaultWarehouse: string
+): { [code: string]: ChartPoint[] } => {
+  const series: { [code: string]: ChartPoint[] } = {};
+  Object.keys(data)
+    .filter((dateString) => isInRange(dateString, filter))
+    .sort()
+    .forEach((dateString) => {
+      const totals: { [code: string]: { performance: number; effective: number } } = {};
+      getDayEntries(data[dateString])
+        .filter((entry) => isCodeIncluded(entry.code, filter))
+        .forEach((entry) => {
+          const total = totals[entry.code] ?? { performance: 0, effective: 0 };
+          total.performance += Number(entry.performance) || 0;
+          total.effective += entryEffectiveHours(entry, getHourRules(entry.warehouse ?? defaultWarehouse));
+          totals[entry.code] = total;
+        });
+      const x = toDayNumber(new Date(dateString + 'T00:00:00'));
+      Object.entries(totals).forEach(([code, total]) => {
+        if (total.effective <= 0) return;
+        series[code] = [...(series[code] ?? []), { x, y: (total.performance / total.effective) * 100 }];
+      });
+    });
+  return series;
+};
+
+/**
+ * Totals of every period that overlaps the filter's date range and has
+ * entries under the included codes. Periods are taken whole, so the figures
+ * match the calendar page even at the ends of the range.
+ */
+export const getPeriodStats = (
+  data: { [key: string]: DailyData },
+  filter: StatsFilter,
+  model: PeriodModel,
+  context: Pick<PayContext, 'warehouse' | 'rateTables' | 'workCodes'>
+): PeriodStats[] => {
+  const stats: PeriodStats[] = [];
+  if (filter.from > filter.to) return stats;
+  const last = toDayNumber(new Date(filter.to + 'T00:00:00'));
+  for (
+    let period = getPeriodForDate(new Date(filter.from + 'T00:00:00'), model);
+    toDayNumber(period.start) <= last;
+    period = getNextPeriod(period, model)
+  ) {
+    const current = period;
+    const inPeriod = (d: Date) => isDateInPeriod(d, current);
+    const entries = Object.keys(data)
+      .filter((dateString) => inPeriod(new Date(dateString + 'T00:00:00')))
+      .flatMap((dateString) => getDayEntries(data[dateString]))
+      .filter((entry) => isCodeIncluded(entry.code, filter));
+    if (entries.length === 0) continue;
+
+    const rulesFor = (entry: { warehouse?: string }) => getHourRules(entry.warehouse ?? context.warehouse);
+    const averages: { [code: string]: number } = {};
+    Array.from(new Set(entries.map((entry) => entry.code))).forEach((code) => {
+      const average = calculateAverage(data, inPeriod, (entry) => entry.code === code, rulesFor);
+      if (average.effectiveHours > 0) averages[code] = average.percentage;
+    });
+    const euros = getPeriodBonuses(data, current, context)
+      .filter((bonus) => isCodeIncluded(bonus.code, filter))
+      .reduce((sum, bonus) => sum + bonus.hours * bonus.rate, 0);
+    const paidHours = entries.reduce((sum, entry) => sum + entryPaidHours(entry, rulesFor(entry)), 0);
+    stats.push({ period: current, averages, euros, paidHours });
+  }
+  return stats;
+};
+
+export interface ArchivedPeriod extends PeriodStats {
+  // Goal in force during the period and whether it was met, per work group.
+  results: GoalResult[];
+}
+
+/**
+ * Every period before `current` that has entries, newest first.
+ */
+export const getPeriodArchive = (
+  data: { [key: string]: DailyData },
+  current: Period,
+  model: PeriodModel,
+  periodGoals: PeriodGoals,
+  context: Pick<PayContext, 'warehouse' | 'rateTables' | 'workCodes'>
+): ArchivedPeriod[] => {
+  const dateStrings = Object.keys(data).sort();
+  if (dateStrings.length === 0) return [];
+  const filter: StatsFilter = {
+    from: dateStrings[0],
+    to: toDateKey(getPreviousPeriod(current, model).end),
+    codes: [],
+  };
+  return getPeriodStats(data, filter, model, context)
+    .map((stats) => ({
+      ...stats,
+      results: getPeriodGoalResults(data, stats.period, periodGoals, context.warehouse, context.workCodes),
+    }))
+    .reverse();
+};
+
+/**
+ * Least-squares line through the points, as its two end points. Fewer than
+ * two distinct x values give no line.
+ */
+export const linearTrend = (points: ChartPoint[]): ChartPoint[] => {
+  if (points.length < 2) return [];
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return [];
+  const slope = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+  const xs = points.map((p) => p.x);
+  return [Math.min(...xs), Math.max(...xs)].map((x) => ({ x, y: meanY + slope * (x - meanX) }));
+};
+
+// Default range: the last half year up to today.
+export const defaultStatsFilter = (today: Date = new Date()): StatsFilter => ({
+  from: toDateKey(new Date(today.getFullYear(), today.getMonth() - 6, today.getDate())),
+  to: toDateKey(today),
+  codes: [],
+});
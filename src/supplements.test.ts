@@ -0,0 +1,89 @@
+// supplements.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SUPPLEMENT_CONFIG,
+  SupplementConfig,
+  isValidSupplementConfig,
+  splitShift,
+  summarizeSupplements,
+} from './supplements';
+
+const config: SupplementConfig = {
+  evening: { start: '18:00', end: '22:00', euroPerHour: 1.5 },
+  night: { start: '22:00', end: '06:00', euroPerHour: 3 },
+};
+
+describe('splitShift', () => {
+  it('leaves a day shift regular', () => {
+    expect(splitShift('06:00', '14:00', config)).toEqual({ regular: 8, evening: 0, night: 0 });
+  });
+
+  it('splits an evening shift at the window edges', () => {
+    expect(splitShift('14:00', '23:30', config)).toEqual({ regular: 4, evening: 4, night: 1.5 });
+  });
+
+  it('follows a night shift past midnight', () => {
+    expect(splitShift('21:45', '05:45', config)).toEqual({ regular: 0, evening: 0.25, night: 7.75 });
+  });
+
+  it('counts the morning end of the night window', () => {
+    expect(splitShift('04:00', '12:00', config)).toEqual({ regular: 6, evening: 0, night: 2 });
+  });
+
+  it('gives overlapping windows to night', () => {
+    const overlapping: SupplementConfig = { ...config, evening: { ...config.evening, end: '23:00' } };
+    expect(splitShift('20:00', '00:00', overlapping)).toEqual({ regular: 0, evening: 2, night: 2 });
+  });
+
+  it('returns nothing without both times', () => {
+    expect(splitShift('', '14:00', config)).toEqual({ regular: 0, evening: 0, night: 0 });
+  });
+});
+
+describe('summarizeSupplements', () => {
+  it('totals hours and euros and skips entries without times', () => {
+    const summary = summarizeSupplements(
+      [{ startTime: '14:00', endTime: '23:30' }, { startTime: '21:45', endTime: '05:45' }, {}],
+      config
+    );
+    expect(summary.eveningHours).toBe(4.25);
+    expect(summary.nightHours).toBe(9.25);
+    expect(summary.eveningEuros).toBeCloseTo(6.375);
+    expect(summary.nightEuros).toBeCloseTo(27.75);
+    expect(summary.totalEuros).toBeCloseTo(34.125);
+  });
+});
+
+describe('summarizeSupplements with split shifts', () => {
+  it('counts only the segments of each entry', () => {
+    // 14:00–18:00 and 21:30–23:30 under one code, 18:00–21:30 under another.
+    const summary = summarizeSupplements(
+      [
+        {
+          startTime: '14:00',
+          endTime: '23:30',
+          segments: [
+            { start: '14:00', end: '18:00', code: '0591', performance: 0 },
+            { start: '21:30', end: '23:30', code: '0591', performance: 0 },
+          ],
+        },
+        {
+          startTime: '18:00',
+          endTime: '21:30',
+          segments: [{ start: '18:00', end: '21:30', code: '0721', performance: 0 }],
+        },
+      ],
+      config
+    );
+    expect(summary.eveningHours).toBe(4);
+    expect(summary.nightHours).toBe(1.5);
+  });
+});
+
+describe('isValidSupplementConfig', () => {
+  it('accepts the default and rejects broken windows', () => {
+    expect(isValidSupplementConfig(DEFAULT_SUPPLEMENT_CONFIG)).toBe(true);
+    expect(isValidSupplementConfig({ ...config, night: { start: '22', end: '06:00', euroPerHour: 3 } })).toBe(false);
+    expect(isValidSupplementConfig({ ...config, evening: { ...config.evening, euroPerHour: -1 } })).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+// supplements.ts
+import { WorkEntry } from './utils';
+
+/**
+ * A time-of-day window that earns a supplement. Times are "HH:mm"; a window
+ * whose end is not after its start runs past midnight (e.g. 22:00–06:00).
+ */
+export interface SupplementWindow {
+  start: string;
+  end: string;
+  euroPerHour: number;
+}
+
+export interface SupplementConfig {
+  evening: SupplementWindow; // iltalisä
+  night: SupplementWindow; // yölisä
+}
+
+// Typical windows; the euro amounts depend on the collective agreement and
+// are entered by the user.
+export const DEFAULT_SUPPLEMENT_CONFIG: SupplementConfig = {
+  evening: { start: '18:00', end: '22:00', euroPerHour: 0 },
+  night: { start: '22:00', end: '06:00', euroPerHour: 0 },
+};
+
+export interface ShiftSplit {
+  regular: number;
+  evening: number;
+  night: number;
+}
+
+export interface SupplementSummary {
+  eveningHours: number;
+  nightHours: number;
+  eveningEuros: number;
+  nightEuros: number;
+  totalEuros: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+type Interval = [number, number];
+
+/**
+ * The window as minute intervals relative to midnight of the shift start,
+ * covering the day before through the day after.
+ */
+const windowIntervals = (window: SupplementWindow): Interval[] => {
+  const windowStart = toMinutes(window.start);
+  let windowEnd = toMinutes(window.end);
+  if (windowEnd <= windowStart) windowEnd += MINUTES_PER_DAY;
+  return [-1, 0, 1].map((day): Interval => [windowStart + day * MINUTES_PER_DAY, windowEnd + day * MINUTES_PER_DAY]);
+};
+
+const intersect = (a: Interval[], b: Interval[]): Interval[] =>
+  a.flatMap(([aStart, aEnd]) =>
+    b
+      .map(([bStart, bEnd]): Interval => [Math.max(aStart, bStart), Math.min(aEnd, bEnd)])
+      .filter(([start, end]) => end > start)
+  );
+
+const totalMinutes = (intervals: Interval[]): number =>
+  intervals.reduce((sum, [start, end]) => sum + (end - start), 0);
+
+/**
+ * Splits a shift into regular, evening and night hours. Shifts whose end time
+ * is earlier than the start cross midnight. Night takes precedence where the
+ * windows overlap. Breaks are not deducted.
+ */
+export const splitShift = (startTime: string, endTime: string, config: SupplementConfig): ShiftSplit => {
+  if (!startTime || !endTime) return { regular: 0, evening: 0, night: 0 };
+  const start = toMinutes(startTime);
+  let end = toMinutes(endTime);
+  if (end < start) end += MINUTES_PER_DAY;
+  const shift: Interval[] = [[start, end]];
+  const nightIntervals = windowIntervals(config.night);
+  const eveningIntervals = intersect(shift, windowIntervals(config.evening));
+  const night = totalMinutes(intersect(shift, nightIntervals));
+  const evening = totalMinutes(eveningIntervals) - totalMinutes(intersect(eveningIntervals, nightIntervals));
+  return {
+    regular: (end - start - night - evening) / 60,
+    evening: evening / 60,
+    night: night / 60,
+  };
+};
+
+/**
+ * Totals supplement hours and euros over the given entries. Split-shift
+ * entries count only their own segments, since their start and end span the
+ * other codes' segments too. Other entries without start and end times are
+ * skipped.
+ */
+export const summarizeSupplements = (
+  entries: Pick<WorkEntry, 'startTime' | 'endTime' | 'segments'>[],
+  config: SupplementConfig
+): SupplementSummary => {
+  let eveningHours = 0;
+  let nightHours = 0;
+  entries.forEach((entry) => {
+    const windows = entry.segments?.length
+      ? entry.segments
+      : entry.startTime && entry.endTime
+      ? [{ start: entry.startTime, end: entry.endTime }]
+      : [];
+    windows.forEach(({ start, end }) => {
+      const split = splitShift(start, end, config);
+      eveningHours += split.evening;
+      nightHours += split.night;
+    });
+  });
+  const eveningEuros = eveningHours * config.evening.euroPerHour;
+  const nightEuros = nightHours * config.night.euroPerHour;
+  return { eveningHours, nightHours, eveningEuros, nightEuros, totalEuros: eveningEuros + nightEuros };
+};
+
+const isValidWindow = (value: unknown): value is SupplementWindow => {
+  if (!value || typeof value !== 'object') return false;
+  const { start, end, euroPerHour } = value as { [key: string]: unknown };
+  const timePattern = /^\d{2}:\d{2}$/;
+  return (
+    typeof start === 'string' &&
+    timePattern.test(start) &&
+    typeof end === 'string' &&
+    timePattern.test(end) &&
+    typeof euroPerHour === 'number' &&
+    euroPerHour >= 0
+  );
+};
+
+export const isValidSupplementConfig = (value: unknown): value is SupplementConfig =>
+  !!value &&
+  typeof value === 'object' &&
+  isValidWindow((value as SupplementConfig).evening) &&
+  isValidWindow((value as SupplementConfig).night);
@@ -0,0 +1,86 @@
+// tax.test.ts
+import { describe, expect, it } from 'vitest';
+import { DailyData, WorkEntry } from './utils';
+import { TaxSettings, estimateNetPay, getYearToDateIncome, isValidTaxSettings } from './tax';
+import { PeriodModel, getPeriodForDate } from './periods';
+import { PayContext } from './pay';
+import { DEFAULT_WORK_CODES } from './workCodes';
+import { DEFAULT_SUPPLEMENT_CONFIG } from './supplements';
+
+const settings: TaxSettings = {
+  basePercentage: 20,
+  additionalPercentage: 40,
+  incomeLimit: 30000,
+  pensionPercentage: 7.15,
+  unemploymentPercentage: 0.59,
+};
+
+describe('estimateNetPay', () => {
+  it('withholds the base percentage and contributions below the income limit', () => {
+    const estimate = estimateNetPay(2000, 0, settings);
+    expect(estimate.withholding).toBe(400);
+    expect(estimate.additionalTaxed).toBe(0);
+    expect(estimate.pension).toBeCloseTo(143);
+    expect(estimate.unemployment).toBeCloseTo(11.8);
+    expect(estimate.net).toBeCloseTo(1445.2);
+    expect(estimate.incomeAfter).toBe(2000);
+  });
+
+  it('splits pay that crosses the income limit', () => {
+    const estimate = estimateNetPay(2000, 29500, settings);
+    expect(estimate.additionalTaxed).toBe(1500);
+    expect(estimate.withholding).toBe(700);
+  });
+
+  it('uses the additional percentage once past the limit', () => {
+    const estimate = estimateNetPay(2000, 31000, settings);
+    expect(estimate.additionalTaxed).toBe(2000);
+    expect(estimate.withholding).toBe(800);
+  });
+});
+
+describe('getYearToDateIncome', () => {
+  const model: PeriodModel = { kind: 'semiMonthly' };
+  const context: PayContext = {
+    warehouse: 'pakaste',
+    rateTables: [],
+    workCodes: DEFAULT_WORK_CODES,
+    payConfig: { baseWage: 20, overtimeTier1Hours: 2 },
+    supplementConfig: DEFAULT_SUPPLEMENT_CONFIG,
+  };
+  const day = (id: number): DailyData => {
+    const entry: WorkEntry = {
+      id,
+      code: '0591',
+      warehouse: 'pakaste',
+      performance: 0,
+      hours: 8,
+      overtime: false,
+      freeDay: false,
+    };
+    return { entries: [entry] };
+  };
+  const data = {
+    '2024-12-20': day(1),
+    '2025-01-10': day(2),
+    '2025-01-20': day(3),
+    '2025-02-03': day(4),
+  };
+
+  it('sums the earlier periods of the same year', () => {
+    // Two 8 h shifts, 7.5 paid hours each.
+    expect(getYearToDateIncome(data, getPeriodForDate(new Date(2025, 1, 3), model), model, context)).toBe(300);
+  });
+
+  it('starts from zero in the first period of the year', () => {
+    expect(getYearToDateIncome(data, getPeriodForDate(new Date(2025, 0, 10), model), model, context)).toBe(0);
+  });
+});
+
+describe('isValidTaxSettings', () => {
+  it('rejects negative or missing values', () => {
+    expect(isValidTaxSettings(settings)).toBe(true);
+    expect(isValidTaxSettings({ ...settings, basePercentage: -1 })).toBe(false);
+    expect(isValidTaxSettings({ basePercentage: 20 })).toBe(false);
+  });
+});
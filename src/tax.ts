@@ -0,0 +1,99 @@
+// tax.ts
+import { DailyData } from './utils';
+import { PayContext, estimatePeriodGrossPay } from './pay';
+import { Period, PeriodModel, getPreviousPeriod } from './periods';
+
+/**
+ * The user's tax card and the employee's statutory insurance contributions,
+ * all as percentages of gross pay. Income above `incomeLimit` within a
+ * calendar year is withheld at the additional percentage.
+ */
+export interface TaxSettings {
+  basePercentage: number;
+  additionalPercentage: number;
+  incomeLimit: number; // €/year
+  pensionPercentage: number; // TyEL
+  unemploymentPercentage: number;
+}
+
+// Contribution rates change yearly; the user can update them in the settings.
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  basePercentage: 0,
+  additionalPercentage: 0,
+  incomeLimit: 0,
+  pensionPercentage: 7.15,
+  unemploymentPercentage: 0.59,
+};
+
+export interface NetPayEstimate {
+  gross: number;
+  withholding: number;
+  // Part of the gross pay that fell above the income limit.
+  additionalTaxed: number;
+  pension: number;
+  unemployment: number;
+  net: number;
+  incomeBefore: number;
+  incomeAfter: number;
+}
+
+/**
+ * Net pay for a gross amount, given the income already earned this year.
+ */
+export const estimateNetPay = (gross: number, incomeBefore: number, settings: TaxSettings): NetPayEstimate => {
+  const belowLimit = Math.max(0, Math.min(gross, settings.incomeLimit - incomeBefore));
+  const additionalTaxed = gross - belowLimit;
+  const withholding =
+    (belowLimit * settings.basePercentage + additionalTaxed * settings.additionalPercentage) / 100;
+  const pension = (gross * settings.pensionPercentage) / 100;
+  const unemployment = (gross * settings.unemploymentPercentage) / 100;
+  return {
+    gross,
+    withholding,
+    additionalTaxed,
+    pension,
+    unemployment,
+    net: gross - withholding - pension - unemployment,
+    incomeBefore,
+    incomeAfter: incomeBefore + gross,
+  };
+};
+
+/**
+ * Gross income of the earlier periods that started in the same calendar year
+ * as the given period, estimated from the stored calendar data.
+ */
+export const getYearToDateIncome = (
+  data: { [key: string]: DailyData },
+  period: Period,
+  model: PeriodModel,
+  context: PayContext
+): number => {
+  const year = period.start.getFullYear();
+  const yearPrefix = `${year}-`;
+  // Only data from the same year (and the last days of the year before, for
+  // periods that straddle new year) can belong to those periods.
+  const yearData: { [key: string]: DailyData } = {};
+  Object.keys(data).forEach((dateString) => {
+    if (dateString.startsWith(yearPrefix) || dateString.startsWith(`${year - 1}-12-`)) {
+      yearData[dateString] = data[dateString];
+    }
+  });
+  if (Object.keys(yearData).length === 0) return 0;
+
+  let income = 0;
+  let previous = getPreviousPeriod(period, model);
+  while (previous.start.getFullYear() === year) {
+    income += estimatePeriodGrossPay(yearData, previous, context).total;
+    previous = getPreviousPeriod(previous, model);
+  }
+  return income;
+};
+
+export const isValidTaxSettings = (value: unknown): value is TaxSettings => {
+  if (!value || typeof value !== 'object') return false;
+  const settings = value as { [key: string]: unknown };
+  return (
+    ['basePercentage', 'additionalPercentage', 'incomeLimit', 'pensionPercentage', 'unemploymentPercentage'] as const
+  ).every((key) => typeof settings[key] === 'number' && (settings[key] as number) >= 0);
+};
@@ -0,0 +1,51 @@
+// tuntikortti.ts
+
+export type TuntikorttiReason = 'siivous' | 'koulutus' | 'laitevika' | 'palaveri' | 'odotus' | 'muu';
+
+export const TUNTIKORTTI_REASON_LABELS: { [reason in TuntikorttiReason]: string } = {
+  siivous: 'Siivous',
+  koulutus: 'Koulutus',
+  laitevika: 'Laitevika',
+  palaveri: 'Palaveri',
+  odotus: 'Odotus',
+  muu: 'Muu',
+};
+
+/**
+ * One time-card item: minutes spent outside the performance measurement.
+ */
+export interface TuntikorttiItem {
+  id: number;
+  minutes: number;
+  reason: TuntikorttiReason;
+  note?: string;
+  // True once the minutes have been subtracted from the entry's hours.
+  deducted?: boolean;
+}
+
+export const sumTuntikorttiMinutes = (items: TuntikorttiItem[] = []): number =>
+  items.reduce((sum, item) => sum + item.minutes, 0);
+
+/**
+ * Totals minutes per reason over the given entries. Reasons without minutes
+ * are left out.
+ */
+export const summarizeTuntikortti = (
+  entries: { tuntikorttiItems?: TuntikorttiItem[] }[]
+): { reason: TuntikorttiReason; minutes: number }[] => {
+  const totals: { [reason: string]: number } = {};
+  entries.forEach((entry) =>
+    (entry.tuntikorttiItems ?? []).forEach((item) => {
+      totals[item.reason] = (totals[item.reason] ?? 0) + item.minutes;
+    })
+  );
+  return (Object.keys(TUNTIKORTTI_REASON_LABELS) as TuntikorttiReason[])
+    .filter((reason) => totals[reason] > 0)
+    .map((reason) => ({ reason, minutes: totals[reason] }));
+};
+
+export const formatMinutes = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  return h > 0 ? `${h} h ${m} min` : `${m} min`;
+};
@@ -0,0 +1,29 @@
+// useCalendarData.ts
+import { useState, useEffect } from 'react';
+import localforage from 'localforage';
+import { DailyData } from './utils';
+import { migrateOldData } from './migration';
+
+/**
+ * Read-only view of calendarData and the stored warehouse selection for pages
+ * other than the calendar. Old data is migrated in memory only; the calendar
+ * page saves the migrated form.
+ */
+export const useCalendarData = () => {
+  const [data, setData] = useState<{ [key: string]: DailyData }>({});
+  const [warehouse, setWarehouse] = useState('pakaste');
+
+  useEffect(() => {
+    Promise.all([localforage.getItem('calendarData'), localforage.getItem<string>('warehouse')])
+      .then(([storedData, storedWarehouse]) => {
+        const selected = storedWarehouse || 'pakaste';
+        setWarehouse(selected);
+        if (storedData) {
+          setData(migrateOldData(storedData as { [key: string]: unknown }, selected));
+        }
+      })
+      .catch((err) => console.error('Error retrieving calendarData:', err));
+  }, []);
+
+  return { data, warehouse };
+};
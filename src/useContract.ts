@@ -0,0 +1,8 @@
+// useContract.ts
+import { ContractSettings, DEFAULT_CONTRACT, isValidContract } from './contract';
+import { useStoredValue } from './useStoredValue';
+
+/**
+ * The user's contract settings, stored in localForage.
+ */
+export const useContract = () => useStoredValue<ContractSettings>('contract', DEFAULT_CONTRACT, isValidContract);
@@ -0,0 +1,9 @@
+// useHolidayExceptions.ts
+import { HolidayException, isValidHolidayExceptions } from './holidays';
+import { useStoredValue } from './useStoredValue';
+
+/**
+ * The user's local changes to the holiday calendar, stored in localForage.
+ */
+export const useHolidayExceptions = () =>
+  useStoredValue<HolidayException[]>('holidayExceptions', [], isValidHolidayExceptions);
@@ -0,0 +1,8 @@
+// usePayConfig.ts
+import { DEFAULT_PAY_CONFIG, PayConfig, isValidPayConfig } from './pay';
+import { useStoredValue } from './useStoredValue';
+
+/**
+ * The user's wage settings, stored in localForage.
+ */
+export const usePayConfig = () => useStoredValue<PayConfig>('payConfig', DEFAULT_PAY_CONFIG, isValidPayConfig);
@@ -0,0 +1,71 @@
+// usePerformanceCalculations.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DailyData } from './utils';
+import { getPeriodForDate } from './periods';
+import { DEFAULT_ROSTER, Roster } from './roster';
+import { DEFAULT_CONTRACT } from './contract';
+import { getRemainingPlannedShifts } from './usePerformanceCalculations';
+
+const weekdays: Roster = { anchor: '2024-01-01', pattern: [8, 8, 8, 8, 8, 0, 0], shifts: [] };
+
+describe('getRemainingPlannedShifts', () => {
+  // Wednesday 5.3.2025, in the period 1.–15.3.
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 2, 5, 10, 0));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+  const period = getPeriodForDate(new Date(2025, 2, 5));
+
+  it('plans the roster days from today to the end of the period', () => {
+    expect(getRemainingPlannedShifts({}, period, weekdays).map((shift) => shift.date)).toEqual([
+      '2025-03-05',
+      '2025-03-06',
+      '2025-03-07',
+      '2025-03-10',
+      '2025-03-11',
+      '2025-03-12',
+      '2025-03-13',
+      '2025-03-14',
+    ]);
+  });
+
+  it('skips days with entries or an absence but not a bare checkpoint', () => {
+    const data: { [key: string]: DailyData } = {
+      '2025-03-06': { absence: { type: 'loma' } },
+      '2025-03-07': {
+        entries: [
+          { id: 1, code: '0591', warehouse: 'pakaste', performance: 7, hours: 8, overtime: false, freeDay: false },
+        ],
+      },
+      '2025-03-10': {
+        checkpoint: {
+          code: '0591',
+          warehouse: 'pakaste',
+          startTime: '06:00',
+          endTime: '14:00',
+          performance: 1,
+          recordedAt: '07:00',
+        },
+      },
+    };
+    expect(getRemainingPlannedShifts(data, period, weekdays).map((shift) => shift.date)).toEqual([
+      '2025-03-05',
+      '2025-03-10',
+      '2025-03-11',
+      '2025-03-12',
+      '2025-03-13',
+      '2025-03-14',
+    ]);
+  });
+
+  it('plans default roster days at the contract length', () => {
+    const contract = { ...DEFAULT_CONTRACT, shiftHours: 6 };
+    const shifts = getRemainingPlannedShifts({}, period, DEFAULT_ROSTER, [], contract);
+    expect(shifts).toHaveLength(8);
+    expect(shifts.every((shift) => shift.hours === 6)).toBe(true);
+    expect(getRemainingPlannedShifts({}, period, weekdays, [], contract)[0].hours).toBe(8);
+  });
+});
@@ -1,173 +1,142 @@
 // usePerformanceCalculations.ts
 import { useMemo } from 'react';
-import { DailyData, effectiveHours, calculateAverage, calculatePercentage } from './utils';
+import {
+  DailyData,
+  PerformanceAverage,
+  calculateAverage,
+  toDateKey,
+  isDayAccountedFor,
+} from './utils';
+import { getHourRules } from './hourRules';
+import { ContractSettings, DEFAULT_CONTRACT, plannedEffectiveHours } from './contract';
+import { Period, getPeriodDays, isDateInPeriod } from './periods';
+import { HolidayException } from './holidays';
+import { DEFAULT_ROSTER, PlannedShift, Roster, getPlannedHours } from './roster';
+import { WorkCodeGoals, WorkGroup, isInWorkGroup, workGroupKey } from './workCodes';
+
+export interface RemainingData {
+  dailyRequiredAbsolute: string;
+  dailyRequiredPercentage: string;
+  currentAveragePercentage: string;
+  missingDays: number;
+  instantlyToGoalAbsolute: string;
+  instantlyToGoalPercentage: string;
+  totalInputHours: string;
+  // The hours-weighted average behind currentAveragePercentage.
+  average: PerformanceAverage;
+}
 
 interface PerformanceCalculationResults {
-  remainingDataNormal: {
-    dailyRequiredAbsolute: string;
-    dailyRequiredPercentage: string;
-    currentAveragePercentage: string;
-    missingDays: number;
-    instantlyToGoalAbsolute: string;
-    instantlyToGoalPercentage: string;
-    totalInputHours: string;
-  } | null;
-  remainingDataForklift: {
-    dailyRequiredAbsolute: string;
-    dailyRequiredPercentage: string;
-    currentAveragePercentage: string;
-    missingDays: number;
-    instantlyToGoalAbsolute: string;
-    instantlyToGoalPercentage: string;
-    totalInputHours: string;
-  } | null;
+  // Per work group key; null when the group's code has no goal.
+  remainingByGroup: { [key: string]: RemainingData | null };
   sharedMissingDays: number; // now counts only future days
-  overallAverage: number;
-  overallAveragePercentage: number;
+  sharedPlannedHours: number; // planned hours of those days
+  // Default work code over all warehouses, each entry with its own hour rules.
+  overallAverage: PerformanceAverage;
 }
 
+/**
+ * Planned shifts from today to the end of the period on days that have no
+ * data or absence yet. Roster workdays without hours of their own are
+ * contract shifts.
+ */
+export const getRemainingPlannedShifts = (
+  data: { [key: string]: DailyData },
+  period: Period,
+  roster: Roster = DEFAULT_ROSTER,
+  holidayExceptions: HolidayException[] = [],
+  contract: ContractSettings = DEFAULT_CONTRACT
+): PlannedShift[] => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const shifts: PlannedShift[] = [];
+  getPeriodDays(period).forEach((currDate) => {
+    // Only consider days that are today or in the future.
+    if (currDate < today) return;
+    const dateStr = toDateKey(currDate);
+    if (isDayAccountedFor(data[dateStr])) return;
+    const planned = getPlannedHours(currDate, roster, contract.shiftHours, holidayExceptions);
+    if (planned > 0) shifts.push({ date: dateStr, hours: planned });
+  });
+  return shifts;
+};
+
 export const usePerformanceCalculations = (
   data: { [key: string]: DailyData },
-  period: string,
-  selectedDate: Date,
-  savedGoal: number | null
+  period: Period,
+  groups: WorkGroup[],
+  goals: WorkCodeGoals,
+  // Selected warehouse: its hour rules apply to the planned shifts.
+  warehouse: string,
+  holidayExceptions: HolidayException[] = [],
+  roster: Roster = DEFAULT_ROSTER,
+  // Planned shifts are worked as the contract's shift type.
+  contract: ContractSettings = DEFAULT_CONTRACT
 ): PerformanceCalculationResults => {
-  const defaultHours = 8;
-  const defaultEffective = 7.25;
-
   return useMemo(() => {
-    // Define filterDates in this scope:
-    const filterDates = (d: Date): boolean => {
-      const day = d.getDate();
-      return period === 'Jakso 1' ? day >= 1 && day <= 15 : day >= 16;
-    };
-
-    // Get period details.
-    const fullYear = selectedDate.getFullYear();
-    const month = selectedDate.getMonth();
-    const periodStartDay = period === 'Jakso 1' ? 1 : 16;
-    const periodEndDay = period === 'Jakso 1' ? 15 : new Date(fullYear, month + 1, 0).getDate();
-
-    // Calculate future working days:
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const filterDates = (d: Date): boolean => isDateInPeriod(d, period);
+    const hourRules = getHourRules(warehouse);
 
-    let futureWorkingDays = 0;
-    for (let d = periodStartDay; d <= periodEndDay; d++) {
-      const currDate = new Date(fullYear, month, d);
-      if (currDate.getDay() === 0 || currDate.getDay() === 6) continue;
-      // Only consider days that are today or in the future.
-      if (currDate >= today) {
-        const dateStr = `${fullYear}-${String(month + 1).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
-        // If there is no data for that day, count it as missing.
-        if (!(data[dateStr] && (data[dateStr].normal || data[dateStr].forklift))) {
-          futureWorkingDays++;
-        }
-      }
-    }
-    const sharedMissingDays = futureWorkingDays;
+    // Effective hours of each planned shift from today on that has no data or absence yet.
+    const remainingShifts = getRemainingPlannedShifts(data, period, roster, holidayExceptions, contract);
+    const missingShiftEffective = remainingShifts.map((shift) =>
+      plannedEffectiveHours(shift.hours, contract, hourRules)
+    );
+    const sharedPlannedHours = remainingShifts.reduce((sum, shift) => sum + shift.hours, 0);
+    const sharedMissingDays = missingShiftEffective.length;
+    const missingEffectiveHours = missingShiftEffective.reduce((sum, eff) => sum + eff, 0);
+    // "Daily" figures refer to the next planned shift, or a contract shift if none is left.
+    const nextShiftEffective =
+      missingShiftEffective[0] ?? plannedEffectiveHours(contract.shiftHours, contract, hourRules);
 
-    // Calculation for Normal mode.
-    const remainingDataNormal = (() => {
-      if (savedGoal === null) return null;
-      let totalEffectiveLogged = 0;
-      let totalPerformanceLogged = 0;
-      let totalInputHours = 0;
-      // Loop over all dates in the period.
-      Object.keys(data).forEach((dateString) => {
-        const dObj = new Date(dateString + "T00:00:00");
-        if (dObj.getFullYear() === fullYear && dObj.getMonth() === month) {
-          const day = dObj.getDate();
-          if (day >= periodStartDay && day <= periodEndDay && data[dateString]?.normal) {
-            const entry = data[dateString].normal;
-            // Deduct 0.5h for shifts of at least 4h (non-overtime/non-free day).
-            const paidHours = (entry.hours >= 4 && !entry.overtime && !entry.freeDay)
-              ? entry.hours - 0.5
-              : entry.hours;
-            totalInputHours += paidHours;
-            const eff = effectiveHours(entry.hours, entry.overtime, entry.freeDay);
-            totalEffectiveLogged += eff;
-            totalPerformanceLogged += entry.performance;
-          }
-        }
-      });
-      // Only add defaultEffective for future missing days.
-      const totalEffectivePeriod = totalEffectiveLogged + sharedMissingDays * defaultEffective;
-      const targetTotalPerformance = totalEffectivePeriod * (savedGoal / 100);
+    // Each group is measured against the goal of its code.
+    const remainingForGroup = (group: WorkGroup): RemainingData | null => {
+      const goal = goals[group.code];
+      if (goal === undefined) return null;
+      const groupRules = getHourRules(group.warehouse);
+      const average = calculateAverage(
+        data,
+        filterDates,
+        (entry) => isInWorkGroup(entry, group, warehouse),
+        () => groupRules
+      );
+      const totalEffectiveLogged = average.effectiveHours;
+      const totalPerformanceLogged = average.performance;
+      // Only add the planned effective hours of future missing days.
+      const totalEffectivePeriod = totalEffectiveLogged + missingEffectiveHours;
+      const targetTotalPerformance = totalEffectivePeriod * (goal / 100);
       const remainingRequired = targetTotalPerformance - totalPerformanceLogged;
-      const dailyRequiredAbsolute = sharedMissingDays > 0 ? remainingRequired / sharedMissingDays : 0;
-      const dailyRequiredPercentage = defaultEffective > 0 ? (dailyRequiredAbsolute / defaultEffective) * 100 : 0;
-      const currentAveragePercentage = totalEffectiveLogged > 0 ? (totalPerformanceLogged / totalEffectiveLogged) * 100 : 0;
+      // Spread the remaining target evenly over the planned effective hours.
+      const dailyRequiredPercentage = missingEffectiveHours > 0 ? (remainingRequired / missingEffectiveHours) * 100 : 0;
+      const dailyRequiredAbsolute = (dailyRequiredPercentage / 100) * nextShiftEffective;
       const instantlyToGoalAbsolute =
-        totalEffectiveLogged + defaultEffective > 0
-          ? (savedGoal / 100) * (totalEffectiveLogged + defaultEffective) - totalPerformanceLogged
+        totalEffectiveLogged + nextShiftEffective > 0
+          ? (goal / 100) * (totalEffectiveLogged + nextShiftEffective) - totalPerformanceLogged
           : 0;
-      const instantlyToGoalPercentage = defaultEffective > 0 ? (instantlyToGoalAbsolute / defaultEffective) * 100 : 0;
+      const instantlyToGoalPercentage = nextShiftEffective > 0 ? (instantlyToGoalAbsolute / nextShiftEffective) * 100 : 0;
       return {
         dailyRequiredAbsolute: dailyRequiredAbsolute.toFixed(2),
         dailyRequiredPercentage: dailyRequiredPercentage.toFixed(0),
-        currentAveragePercentage: currentAveragePercentage.toFixed(0),
+        currentAveragePercentage: average.percentage.toFixed(0),
         missingDays: sharedMissingDays,
         instantlyToGoalAbsolute: instantlyToGoalAbsolute.toFixed(2),
         instantlyToGoalPercentage: instantlyToGoalPercentage.toFixed(0),
-        totalInputHours: totalInputHours.toFixed(2),
+        totalInputHours: average.paidHours.toFixed(2),
+        average,
       };
-    })();
-
-    // Calculation for Forklift mode.
-    const remainingDataForklift = (() => {
-      if (savedGoal === null) return null;
-      let totalEffectiveLogged = 0;
-      let totalPerformanceLogged = 0;
-      let totalInputHours = 0;
-      Object.keys(data).forEach((dateString) => {
-        const dObj = new Date(dateString + "T00:00:00");
-        if (dObj.getFullYear() === fullYear && dObj.getMonth() === month) {
-          const day = dObj.getDate();
-          if (day >= periodStartDay && day <= periodEndDay && data[dateString]?.forklift) {
-            const entry = data[dateString].forklift;
-            const paidHours = (entry.hours >= 4 && !entry.overtime && !entry.freeDay)
-              ? entry.hours - 0.5
-              : entry.hours;
-            totalInputHours += paidHours;
-            const eff = effectiveHours(entry.hours, entry.overtime, entry.freeDay);
-            totalEffectiveLogged += eff;
-            totalPerformanceLogged += entry.performance;
-          }
-        }
-      });
-      const totalEffectivePeriod = totalEffectiveLogged + sharedMissingDays * defaultEffective;
-      const targetTotalPerformance = totalEffectivePeriod * (savedGoal / 100);
-      const remainingRequired = targetTotalPerformance - totalPerformanceLogged;
-      const dailyRequiredAbsolute = sharedMissingDays > 0 ? remainingRequired / sharedMissingDays : 0;
-      const dailyRequiredPercentage = defaultEffective > 0 ? (dailyRequiredAbsolute / defaultEffective) * 100 : 0;
-      const currentAveragePercentage = totalEffectiveLogged > 0 ? (totalPerformanceLogged / totalEffectiveLogged) * 100 : 0;
-      const instantlyToGoalAbsolute =
-        totalEffectiveLogged + defaultEffective > 0
-          ? (savedGoal / 100) * (totalEffectiveLogged + defaultEffective) - totalPerformanceLogged
-          : 0;
-      const instantlyToGoalPercentage = defaultEffective > 0 ? (instantlyToGoalAbsolute / defaultEffective) * 100 : 0;
-      return {
-        dailyRequiredAbsolute: dailyRequiredAbsolute.toFixed(2),
-        dailyRequiredPercentage: dailyRequiredPercentage.toFixed(0),
-        currentAveragePercentage: currentAveragePercentage.toFixed(0),
-        missingDays: sharedMissingDays,
-        instantlyToGoalAbsolute: instantlyToGoalAbsolute.toFixed(2),
-        instantlyToGoalPercentage: instantlyToGoalPercentage.toFixed(0),
-        totalInputHours: totalInputHours.toFixed(2),
-      };
-    })();
+    };
+    const remainingByGroup = Object.fromEntries(groups.map((group) => [workGroupKey(group), remainingForGroup(group)]));
 
     // Overall period averages.
-    const overallAverage = parseFloat(calculateAverage(data, filterDates));
-    const overallAveragePercentage = calculatePercentage(overallAverage);
+    const overallAverage = calculateAverage(data, filterDates, undefined, (entry) =>
+      getHourRules(entry.warehouse ?? warehouse)
+    );
 
     return {
-      remainingDataNormal,
-      remainingDataForklift,
+      remainingByGroup,
       sharedMissingDays,
+      sharedPlannedHours,
       overallAverage,
-      overallAveragePercentage,
     };
-  }, [data, period, selectedDate, savedGoal]);
+  }, [data, period, groups, goals, warehouse, holidayExceptions, roster, contract]);
 };
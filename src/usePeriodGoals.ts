@@ -0,0 +1,41 @@
+// usePeriodGoals.ts
+import { useState, useEffect, useCallback } from 'react';
+import localforage from 'localforage';
+import { BASELINE_GOAL_KEY, PeriodGoals, isValidPeriodGoals } from './goals';
+import { DEFAULT_WORK_CODE, FORKLIFT_WORK_CODE, WorkCodeGoals, isValidWorkCodeGoals } from './workCodes';
+
+/**
+ * Goals per period and work code, stored in localForage. Goals saved before
+ * per-period goals become the baseline: first the single `savedGoal` from
+ * localStorage, which normal and forklift work shared, then the goals per
+ * work code.
+ */
+export const usePeriodGoals = (): [PeriodGoals, (goals: PeriodGoals) => void] => {
+  const [periodGoals, setPeriodGoals] = useState<PeriodGoals>({});
+
+  useEffect(() => {
+    Promise.all([localforage.getItem('periodGoals'), localforage.getItem('workCodeGoals')])
+      .then(([stored, storedCodeGoals]) => {
+        if (isValidPeriodGoals(stored)) {
+          setPeriodGoals(stored);
+          return;
+        }
+        const baseline: WorkCodeGoals = {};
+        const legacyGoal = parseFloat(localStorage.getItem('savedGoal') ?? '');
+        if (!isNaN(legacyGoal)) {
+          baseline[DEFAULT_WORK_CODE] = legacyGoal;
+          baseline[FORKLIFT_WORK_CODE] = legacyGoal;
+        }
+        if (isValidWorkCodeGoals(storedCodeGoals)) Object.assign(baseline, storedCodeGoals);
+        if (Object.keys(baseline).length > 0) setPeriodGoals({ [BASELINE_GOAL_KEY]: baseline });
+      })
+      .catch((err) => console.error('Error loading periodGoals:', err));
+  }, []);
+
+  const savePeriodGoals = useCallback((goals: PeriodGoals) => {
+    setPeriodGoals(goals);
+    localforage.setItem('periodGoals', goals).catch((err) => console.error('Error saving periodGoals:', err));
+  }, []);
+
+  return [periodGoals, savePeriodGoals];
+};
@@ -0,0 +1,8 @@
+// usePeriodModel.ts
+import { DEFAULT_PERIOD_MODEL, PeriodModel, isValidPeriodModel } from './periods';
+import { useStoredValue } from './useStoredValue';
+
+/**
+ * The user's pay-period model, stored in localForage.
+ */
+export const usePeriodModel = () => useStoredValue<PeriodModel>('periodModel', DEFAULT_PERIOD_MODEL, isValidPeriodModel);
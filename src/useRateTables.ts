@@ -0,0 +1,37 @@
+// useRateTables.ts
+import { useState, useEffect, useMemo } from 'react';
+import localforage from 'localforage';
+import { RateTable, BASELINE_VALID_FROM, defaultRateTables, mergeRateTables, withWorkCode } from './rateTables';
+
+/**
+ * Loads the user's own rate tables from localForage and merges them over the
+ * bundled defaults.
+ */
+export const useRateTables = () => {
+  const [customTables, setCustomTables] = useState<RateTable[]>([]);
+
+  useEffect(() => {
+    localforage
+      .getItem<{ [key: string]: unknown }[]>('rateTables')
+      .then((stored) => {
+        if (stored) {
+          // Tables saved before versioning have no date; treat them as the baseline.
+          setCustomTables(
+            stored.map((t) => ({ ...withWorkCode(t), validFrom: t.validFrom ?? BASELINE_VALID_FROM }) as RateTable)
+          );
+        }
+      })
+      .catch((err) => console.error('Error loading rateTables:', err));
+  }, []);
+
+  const saveCustomTables = (tables: RateTable[]) => {
+    setCustomTables(tables);
+    localforage.setItem('rateTables', tables).catch((err) =>
+      console.error('Error saving rateTables:', err)
+    );
+  };
+
+  const tables = useMemo(() => mergeRateTables(defaultRateTables, customTables), [customTables]);
+
+  return { tables, customTables, saveCustomTables };
+};
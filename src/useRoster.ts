@@ -0,0 +1,8 @@
+// useRoster.ts
+import { DEFAULT_ROSTER, Roster, isValidRoster } from './roster';
+import { useStoredValue } from './useStoredValue';
+
+/**
+ * The user's work roster, stored in localForage.
+ */
+export const useRoster = () => useStoredValue<Roster>('roster', DEFAULT_ROSTER, isValidRoster);
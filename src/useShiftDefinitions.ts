@@ -0,0 +1,9 @@
+// useShiftDefinitions.ts
+import { DEFAULT_SHIFT_DEFINITIONS, ShiftDefinition, isValidShiftDefinitions } from './shiftDefinitions';
+import { useStoredValue } from './useStoredValue';
+
+/**
+ * The user's shift definitions, stored in localForage.
+ */
+export const useShiftDefinitions = () =>
+  useStoredValue<ShiftDefinition[]>('shiftDefinitions', DEFAULT_SHIFT_DEFINITIONS, isValidShiftDefinitions);
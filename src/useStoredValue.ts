@@ -0,0 +1,42 @@
+// useStoredValue.ts
+import { useState, useEffect, useCallback, useRef } from 'react';
+import localforage from 'localforage';
+
+/**
+ * State that is loaded from localForage on mount and written back on every
+ * update. Values that fail `isValid` are ignored and the default is kept.
+ */
+export const useStoredValue = <T>(
+  key: string,
+  defaultValue: T,
+  isValid: (value: unknown) => value is T = (value: unknown): value is T => value !== null && value !== undefined
+): [T, (value: T) => void] => {
+  const [value, setValue] = useState<T>(defaultValue);
+  // Callers often pass an inline validator; the latest one is used without
+  // reloading the value on every render.
+  const isValidRef = useRef(isValid);
+  useEffect(() => {
+    isValidRef.current = isValid;
+  });
+
+  useEffect(() => {
+    localforage
+      .getItem(key)
+      .then((stored) => {
+        if (isValidRef.current(stored)) {
+          setValue(stored);
+        }
+      })
+      .catch((err) => console.error(`Error loading ${key}:`, err));
+  }, [key]);
+
+  const saveValue = useCallback(
+    (newValue: T) => {
+      setValue(newValue);
+      localforage.setItem(key, newValue).catch((err) => console.error(`Error saving ${key}:`, err));
+    },
+    [key]
+  );
+
+  return [value, saveValue];
+};
@@ -0,0 +1,9 @@
+// useSupplementConfig.ts
+import { DEFAULT_SUPPLEMENT_CONFIG, SupplementConfig, isValidSupplementConfig } from './supplements';
+import { useStoredValue } from './useStoredValue';
+
+/**
+ * The user's evening and night supplement settings, stored in localForage.
+ */
+export const useSupplementConfig = () =>
+  useStoredValue<SupplementConfig>('supplementConfig', DEFAULT_SUPPLEMENT_CONFIG, isValidSupplementConfig);
@@ -0,0 +1,8 @@
+// useTaxSettings.ts
+import { DEFAULT_TAX_SETTINGS, TaxSettings, isValidTaxSettings } from './tax';
+import { useStoredValue } from './useStoredValue';
+
+/**
+ * The user's tax card and contribution percentages, stored in localForage.
+ */
+export const useTaxSettings = () => useStoredValue<TaxSettings>('taxSettings', DEFAULT_TAX_SETTINGS, isValidTaxSettings);
@@ -0,0 +1,8 @@
+// useWorkCodes.ts
+import { DEFAULT_WORK_CODES, WorkCode, isValidWorkCodes } from './workCodes';
+import { useStoredValue } from './useStoredValue';
+
+/**
+ * The user's work codes, stored in localForage.
+ */
+export const useWorkCodes = () => useStoredValue<WorkCode[]>('workCodes', DEFAULT_WORK_CODES, isValidWorkCodes);
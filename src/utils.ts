@@ -1,4 +1,7 @@
 // utils.ts
+import { HourRuleset, defaultHourRules } from './hourRules';
+import { TuntikorttiItem } from './tuntikortti';
+import { DEFAULT_WORK_CODE } from './workCodes';
 
 export interface DateData {
   performance: number;
@@ -7,14 +10,115 @@ export interface DateData {
   freeDay: boolean;
   startTime?: string;
   endTime?: string;
-  tuntikortti?: number;
+  tuntikorttiItems?: TuntikorttiItem[];
+  // Warehouse the work was done in; entries saved before this was tracked use
+  // the selected warehouse.
+  warehouse?: string;
+  // Set on parts of a split shift: true if the shift's break falls within
+  // this entry, false if not. Unset means the hour rules decide.
+  breakDeduction?: boolean;
+  // Id of the shift definition the work was done in.
+  workShift?: string;
+}
+
+export type AbsenceType = 'loma' | 'sairausloma' | 'palkaton' | 'koulutus';
+
+export const ABSENCE_LABELS: { [type in AbsenceType]: string } = {
+  loma: 'Loma',
+  sairausloma: 'Sairausloma',
+  palkaton: 'Palkaton vapaa',
+  koulutus: 'Koulutus',
+};
+
+export interface Absence {
+  type: AbsenceType;
+}
+
+/**
+ * One clock-time stretch of a split shift, done under a single work code.
+ */
+export interface ShiftSegment {
+  start: string; // HH:mm
+  end: string; // HH:mm
+  code: string;
+  performance: number;
+}
+
+/**
+ * One piece of work done under a work code. A day can have several.
+ */
+export interface WorkEntry extends DateData {
+  id: number;
+  code: string;
+  // Entries saved from the same split shift share an id and list their own segments.
+  shiftId?: number;
+  segments?: ShiftSegment[];
+}
+
+/**
+ * A performance counter reading taken during an ongoing shift. It becomes a
+ * normal entry when the shift ends.
+ */
+export interface ShiftCheckpoint {
+  code: string;
+  warehouse: string;
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  performance: number;
+  // Clock time of the reading.
+  recordedAt: string; // HH:mm
+  // Shift type and shift definition of the day, carried over to the entry.
+  overtime?: boolean;
+  freeDay?: boolean;
+  workShift?: string;
 }
 
 export interface DailyData {
-  normal?: DateData;
-  forklift?: DateData;
+  entries?: WorkEntry[];
+  absence?: Absence;
+  checkpoint?: ShiftCheckpoint;
 }
 
+/**
+ * The day's work entries, optionally only those under the given code.
+ */
+export const getDayEntries = (day: DailyData | undefined, code?: string): WorkEntry[] =>
+  (day?.entries ?? []).filter((entry) => code === undefined || entry.code === code);
+
+/**
+ * True if the day has a work entry or an absence, i.e. it is not "missing".
+ */
+export const isDayAccountedFor = (day: DailyData | undefined): boolean =>
+  getDayEntries(day).length > 0 || !!day?.absence;
+
+/**
+ * Formats a date as the YYYY-MM-DD key used in calendarData.
+ */
+export const toDateKey = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+/**
+ * Day number of a date that is not affected by daylight saving time changes,
+ * for counting whole days between dates.
+ */
+export const toDayNumber = (d: Date): number =>
+  Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()) / (24 * 60 * 60 * 1000);
+
+/**
+ * Lists every day from start to end (inclusive) as a local-midnight Date.
+ */
+export const getDaysBetween = (start: Date, end: Date): Date[] => {
+  const days: Date[] = [];
+  for (
+    let d = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    toDayNumber(d) <= toDayNumber(end);
+    d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)
+  ) {
+    days.push(d);
+  }
+  return days;
+};
+
 /**
  * Calculates effective working hours.
  *
@@ -22,215 +126,162 @@ export interface DailyData {
  * @param overtime - overtime flag
  * @param freeDay - freeDay flag
  * @param applyBreakDeduction - if false, no break deduction is applied
+ * @param rules - hour rules of the warehouse the shift was worked in
  * @returns effective hours
  */
 export const effectiveHours = (
   hours: number,
   overtime: boolean,
   freeDay: boolean,
-  applyBreakDeduction: boolean = true
+  applyBreakDeduction: boolean = true,
+  rules: HourRuleset = defaultHourRules
 ): number => {
   if (freeDay) {
-    // Free day: use raw hours multiplied by 0.967.
-    return hours * 0.967;
+    // Free day: use raw hours multiplied by the free-day factor.
+    return hours * rules.freeDay.factor;
   } else if (overtime) {
-    // Overtime day: enforce minimum 8 and maximum 16 hours.
-    const clampedHours = Math.max(8, Math.min(hours, 16));
-    return 7.25 + (clampedHours - 8) * 0.967;
+    // Overtime day: clamp to the allowed range.
+    const { minHours, maxHours, baseEffectiveHours, extraHourFactor } = rules.overtime;
+    const clampedHours = Math.max(minHours, Math.min(hours, maxHours));
+    return baseEffectiveHours + (clampedHours - minHours) * extraHourFactor;
   } else {
     // Normal (non-overtime) day:
-    if (hours < 4) {
+    const { breakThresholdHours, breakDeduction, standardShiftHours, extraHourFactor } = rules.normal;
+    if (hours < breakThresholdHours) {
       // No deduction for very short shifts.
       return hours;
-    } else if (hours <= 8) {
-      return applyBreakDeduction ? hours - 0.75 : hours;
-    } else {
-      return applyBreakDeduction ? 7.25 + (hours - 8) * 0.967 : 8 + (hours - 8) * 0.967;
     }
+    const deduction = applyBreakDeduction ? breakDeduction : 0;
+    if (hours <= standardShiftHours) {
+      return hours - deduction;
+    }
+    return standardShiftHours - deduction + (hours - standardShiftHours) * extraHourFactor;
   }
 };
 
-export const performanceToEuro = (percentage: number, warehouse: string = "pakaste"): number => {
-  if (warehouse !== "pakaste") {
-    // For KV1/KV2, return 0 (or a placeholder value) until rates are added.
-    return 0;
-  }
-
-
-  const performanceRates: { [key: number]: number } = {
-    150: 7.07,
-    149: 7.02,
-    148: 6.94,
-    147: 6.89,
-    146: 6.84,
-    145: 6.78,
-    144: 6.69,
-    143: 6.61,
-    142: 6.53,
-    141: 6.44,
-    140: 6.37,
-    139: 6.32,
-    138: 6.19,
-    137: 6.11,
-    136: 6.01,
-    135: 5.96,
-    134: 5.89,
-    133: 5.79,
-    132: 5.68,
-    131: 5.63,
-    130: 5.61,
-    129: 5.54,
-    128: 5.48,
-    127: 5.42,
-    126: 5.36,
-    125: 5.28,
-    124: 5.18,
-    123: 5.05,
-    122: 4.94,
-    121: 4.84,
-    120: 4.73,
-    119: 4.57,
-    118: 4.44,
-    117: 4.13,
-    116: 3.96,
-    115: 3.77,
-    114: 3.63,
-    113: 3.45,
-    112: 3.28,
-    111: 3.07,
-    110: 2.8,
-    109: 2.69,
-    108: 2.52,
-    107: 2.47,
-    106: 2.35,
-    105: 2.23,
-    104: 2.13,
-    103: 2.04,
-    102: 1.93,
-    101: 1.81,
-    100: 1.74,
-    99: 1.52,
-    98: 1.38,
-    97: 1.16,
-    96: 0.93,
-    95: 0.51,
-    94: 0.0,
-  };
-
-  // Round the given percentage.
-  const rounded = Math.round(percentage);
-  // Return the corresponding €/h or a fallback within the valid range.
-  return performanceRates[rounded] ?? performanceRates[Math.max(94, Math.min(150, rounded))];
+/**
+ * Calculates the hours paid for a shift: own shifts long enough to include a
+ * break lose the unpaid part of it, overtime is paid in full.
+ */
+export const paidHours = (
+  hours: number,
+  overtime: boolean,
+  freeDay: boolean,
+  rules: HourRuleset = defaultHourRules
+): number => {
+  const { thresholdHours, breakDeduction } = rules.paidHours;
+  return hours >= thresholdHours && !overtime && !freeDay ? hours - breakDeduction : hours;
 };
 
-// forkliftPerformanceToEuro.ts (or place in utils.ts)
-
-export const forkliftPerformanceToEuro = (percentage: number, warehouse: string = "pakaste"): number => {
-  if (warehouse !== "pakaste") {
-    return 0;
-  }
-
-
-  const forkliftRates: { [key: number]: number } = {
-    150: 7.46,
-    149: 7.38,
-    148: 7.29,
-    147: 7.21,
-    146: 7.13,
-    145: 7.05,
-    144: 6.94,
-    143: 6.86,
-    142: 6.76,
-    141: 6.68,
-    140: 6.58,
-    139: 6.42,
-    138: 6.34,
-    137: 6.24,
-    136: 6.13,
-    135: 5.95,
-    134: 5.83,
-    133: 5.75,
-    132: 5.67,
-    131: 5.58,
-    130: 5.47,
-    129: 5.32,
-    128: 5.20,
-    127: 5.13,
-    126: 5.01,
-    125: 4.89,
-    124: 4.77,
-    123: 4.66,
-    122: 4.55,
-    121: 4.46,
-    120: 4.34,
-    119: 4.23,
-    118: 4.04,
-    117: 3.91,
-    116: 3.77,
-    115: 3.60,
-    114: 3.44,
-    113: 3.24,
-    112: 3.08,
-    111: 2.97,
-    110: 2.85,
-    109: 2.71,
-    108: 2.58,
-    107: 2.50,
-    106: 2.42,
-    105: 2.34,
-    104: 2.26,
-    103: 2.18,
-    102: 2.10,
-    101: 2.03,
-    100: 1.94,
-    99: 1.60,
-    98: 1.25,
-    97: 0.91,
-    96: 0.56,
-    95: 0.23,
-  };
+/**
+ * Effective hours of a logged entry. Split-shift parts deduct the break only
+ * if it falls within them, whatever their length.
+ */
+export const entryEffectiveHours = (entry: DateData, rules: HourRuleset = defaultHourRules): number => {
+  const { hours, overtime, freeDay, breakDeduction } = entry;
+  if (breakDeduction === undefined) return effectiveHours(hours, overtime, freeDay, true, rules);
+  const withoutBreak = effectiveHours(hours, overtime, freeDay, false, rules);
+  return breakDeduction && !overtime && !freeDay ? withoutBreak - rules.normal.breakDeduction : withoutBreak;
+};
 
-  // Round the given percentage to the nearest integer.
-  const rounded = Math.round(percentage);
-  // Return the corresponding €/h or a fallback within the valid range.
-  return forkliftRates[rounded] ?? forkliftRates[Math.max(95, Math.min(150, rounded))];
+/**
+ * Paid hours of a logged entry, with the same break handling as
+ * entryEffectiveHours.
+ */
+export const entryPaidHours = (entry: DateData, rules: HourRuleset = defaultHourRules): number => {
+  const { hours, overtime, freeDay, breakDeduction } = entry;
+  if (breakDeduction === undefined) return paidHours(hours, overtime, freeDay, rules);
+  return breakDeduction && !overtime && !freeDay ? hours - rules.paidHours.breakDeduction : hours;
 };
 
+/**
+ * Runs the ruleset against its own fixtures and returns a message for every
+ * fixture that does not match.
+ */
+export const checkHourRuleFixtures = (rules: HourRuleset): string[] =>
+  rules.fixtures.flatMap((fixture) => {
+    const { hours, overtime, freeDay, applyBreakDeduction = true } = fixture;
+    const effective = effectiveHours(hours, overtime, freeDay, applyBreakDeduction, rules);
+    const paid = paidHours(hours, overtime, freeDay, rules);
+    const problems: string[] = [];
+    if (Math.abs(effective - fixture.effective) > 0.001) {
+      problems.push(`${rules.warehouse}: ${JSON.stringify(fixture)} gave effective ${effective}`);
+    }
+    if (Math.abs(paid - fixture.paid) > 0.001) {
+      problems.push(`${rules.warehouse}: ${JSON.stringify(fixture)} gave paid ${paid}`);
+    }
+    return problems;
+  });
+
 /**
  * Computes performance percentage given an entry.
  */
 export const computePerformancePercentage = (
   entry: DateData,
-  applyBreakDeduction: boolean = true
+  applyBreakDeduction: boolean = true,
+  rules: HourRuleset = defaultHourRules
 ): number => {
-  const eff = effectiveHours(entry.hours, entry.overtime, entry.freeDay, applyBreakDeduction);
+  const eff = applyBreakDeduction
+    ? entryEffectiveHours(entry, rules)
+    : effectiveHours(entry.hours, entry.overtime, entry.freeDay, false, rules);
   if (eff <= 0) return 0;
   return Math.round((entry.performance / eff) * 100);
 };
 
 /**
- * Calculates the average performance over the dates that pass the filter.
- * The mode parameter indicates whether to use "normal" or "forklift" data.
+ * How a period average was computed: the totals it is built from and the
+ * resulting performance per effective hour.
+ */
+export interface PerformanceAverage {
+  days: number;
+  entries: number;
+  performance: number;
+  effectiveHours: number;
+  paidHours: number;
+  // Performance per effective hour.
+  perHour: number;
+  // perHour as a percentage, comparable to computePerformancePercentage.
+  percentage: number;
+}
+
+/**
+ * Calculates the average performance over the dates that pass the filter,
+ * weighted by effective hours: total performance divided by total effective
+ * hours, so a long overtime day weighs more than a short one. Only entries
+ * accepted by `includeEntry` count (by default those under the default work
+ * code), and each entry uses the hour rules `rulesFor` returns for it.
  */
 export const calculateAverage = (
   data: { [key: string]: DailyData },
   filterDates: (date: Date) => boolean,
-  mode: 'normal' | 'forklift' = 'normal'
-): string => {
-  const filteredDates = Object.keys(data).filter((dateString) => {
-    const dateObj = new Date(dateString + "T00:00:00");
-    return filterDates(dateObj);
+  includeEntry: (entry: WorkEntry) => boolean = (entry) => entry.code === DEFAULT_WORK_CODE,
+  rulesFor: (entry: WorkEntry) => HourRuleset = () => defaultHourRules
+): PerformanceAverage => {
+  const average: PerformanceAverage = {
+    days: 0,
+    entries: 0,
+    performance: 0,
+    effectiveHours: 0,
+    paidHours: 0,
+    perHour: 0,
+    percentage: 0,
+  };
+  Object.keys(data).forEach((dateString) => {
+    if (!filterDates(new Date(dateString + "T00:00:00"))) return;
+    const entries = getDayEntries(data[dateString]).filter(includeEntry);
+    if (entries.length === 0) return;
+    average.days += 1;
+    entries.forEach((entry) => {
+      const rules = rulesFor(entry);
+      average.entries += 1;
+      average.performance += Number(entry.performance) || 0;
+      average.effectiveHours += entryEffectiveHours(entry, rules);
+      average.paidHours += entryPaidHours(entry, rules);
+    });
   });
-  const total = filteredDates.reduce((sum, dateString) => {
-    const entry = data[dateString][mode];
-    const perf = entry ? Number(entry.performance) : 0;
-    return sum + (isNaN(perf) ? 0 : perf);
-  }, 0);
-  const average = filteredDates.length > 0 ? total / filteredDates.length : 0;
-  return average.toFixed(2);
-};
-
-export const calculatePercentage = (value: number): number => {
-  const percentage = ((value - 7.25) / (10.88 - 7.25)) * 50 + 100;
-  return Math.round(percentage);
+  if (average.effectiveHours > 0) {
+    average.perHour = average.performance / average.effectiveHours;
+    average.percentage = average.perHour * 100;
+  }
+  return average;
 };
@@ -0,0 +1,92 @@
+// workCodes.ts
+
+/**
+ * A work code that performance is tracked under, e.g. 0591 for voice picking.
+ * Every code has its own rate tables, goal and average.
+ */
+export interface WorkCode {
+  code: string;
+  label: string;
+}
+
+export const DEFAULT_WORK_CODE = '0591';
+export const FORKLIFT_WORK_CODE = '0721';
+
+export const DEFAULT_WORK_CODES: WorkCode[] = [
+  { code: DEFAULT_WORK_CODE, label: 'Keräys' },
+  { code: FORKLIFT_WORK_CODE, label: 'Trukki' },
+];
+
+// Codes that the fixed "normal" and "forklift" slots of older data map to.
+export const LEGACY_MODE_CODES: { [mode: string]: string } = {
+  normal: DEFAULT_WORK_CODE,
+  forklift: FORKLIFT_WORK_CODE,
+};
+
+/**
+ * Goal percentage per work code.
+ */
+export type WorkCodeGoals = { [code: string]: number };
+
+/**
+ * Entries are averaged and paid per work code within one warehouse, since
+ * each warehouse has its own rate tables and hour rules.
+ */
+export interface WorkGroup {
+  warehouse: string;
+  code: string;
+}
+
+export const workGroupKey = (group: WorkGroup): string => `${group.warehouse}/${group.code}`;
+
+export const isInWorkGroup = (
+  entry: { code: string; warehouse?: string },
+  group: WorkGroup,
+  defaultWarehouse: string
+): boolean => entry.code === group.code && (entry.warehouse ?? defaultWarehouse) === group.warehouse;
+
+export const getWorkCodeLabel = (codes: WorkCode[], code: string): string =>
+  codes.find((c) => c.code === code)?.label ?? code;
+
+/**
+ * Orders the given codes as they appear in the user's list, with codes that
+ * are no longer in the list last.
+ */
+export const sortWorkCodes = (codes: string[], workCodes: WorkCode[]): string[] => {
+  const position = (code: string) => {
+    const index = workCodes.findIndex((c) => c.code === code);
+    return index === -1 ? workCodes.length : index;
+  };
+  return [...codes].sort((a, b) => position(a) - position(b) || a.localeCompare(b));
+};
+
+/**
+ * The distinct groups of the given entries: the default warehouse first, then
+ * the others by name, codes in the user's order within each.
+ */
+export const getWorkGroups = (
+  entries: { code: string; warehouse?: string }[],
+  defaultWarehouse: string,
+  workCodes: WorkCode[]
+): WorkGroup[] => {
+  const warehouses = Array.from(new Set(entries.map((entry) => entry.warehouse ?? defaultWarehouse))).sort(
+    (a, b) => Number(b === defaultWarehouse) - Number(a === defaultWarehouse) || a.localeCompare(b)
+  );
+  return warehouses.flatMap((warehouse) => {
+    const codes = entries
+      .filter((entry) => (entry.warehouse ?? defaultWarehouse) === warehouse)
+      .map((entry) => entry.code);
+    return sortWorkCodes(Array.from(new Set(codes)), workCodes).map((code) => ({ warehouse, code }));
+  });
+};
+
+export const isValidWorkCodes = (value: unknown): value is WorkCode[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((c) => c && typeof c.code === 'string' && c.code !== '' && typeof c.label === 'string');
+
+export const isValidWorkCodeGoals = (value: unknown): value is WorkCodeGoals =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  Object.values(value).every((goal) => typeof goal === 'number');